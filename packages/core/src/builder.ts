@@ -1,51 +1,446 @@
-import type { ZodSchema } from "zod";
+import { randomUUID } from "node:crypto";
+import type { Span } from "@opentelemetry/api";
+import type { ZodSchema, z } from "zod";
+import { type CacheConfig, type CacheStore, MemoryCacheStore } from "./cache";
+import { type ConcurrencyConfig, ConcurrencyLimiter } from "./concurrency";
 import { validateCsrf } from "./csrf";
-import { createRateLimiter } from "./rate-limit";
+import { type DedupeConfig, InFlightRegistry } from "./dedupe";
+import { isActionError } from "./errors";
+import {
+	REJECTION_EVENTS,
+	SecurityEventBus,
+	type SecurityEventInfo,
+	type SecurityEventListener,
+	type SecurityEventName,
+	type SecurityEvents,
+} from "./events";
+import { decodeFormData, isFormData } from "./form-data";
+import {
+	type IdempotencyConfig,
+	type IdempotencyStore,
+	MemoryIdempotencyStore,
+	readIdempotencyKey,
+} from "./idempotency";
+import { clientIp, resolveRequestKey, stableStringify, userId, userScope } from "./keys";
+import { type MetricLabels, MetricsRegistry } from "./metrics";
+import { getOverrides, now } from "./overrides";
+import { evaluatePolicy, type PolicyDecision, type PolicyLike, policyName } from "./policy";
+import { createRateLimiter, parseWindow } from "./rate-limit";
+import { hasAnyRole } from "./rbac";
+import { resolveRequestHeaders } from "./request";
 import { sanitizeInput } from "./sanitize";
+import { describeSchema } from "./schema-inspect";
+import { endActionSpan, startActionSpan, traceStep, withActiveSpan } from "./tracing";
 import type {
 	ActionBuilder,
+	ActionContext,
+	ActionFailure,
 	ActionGuardConfig,
 	ActionGuardInstance,
+	ActionHandlerParams,
+	ActionManifest,
+	ActionOutput,
 	ActionResult,
 	AuditConfig,
+	AuditEntry,
+	ContextResolver,
+	EnforcedSteps,
+	GuardedAction,
+	HandlerOutput,
+	InferBindArgs,
+	LifecycleHooks,
+	Middleware,
 	MiddlewareContext,
+	PipelineStepType,
 	RateLimitConfig,
+	RejectingStep,
+	SkippableStep,
+	SkippedStep,
+	StepDescription,
 } from "./types";
+import { formatValidationErrors, type ValidationErrors } from "./validation";
 
 interface PipelineStep {
-	type: "auth" | "schema" | "rateLimit" | "audit" | "csrf" | "sanitize";
+	type: PipelineStepType;
 	config?: unknown;
 }
 
+interface IdempotencyStep extends Pick<IdempotencyConfig, "header" | "field"> {
+	ttlMs: number;
+	store: IdempotencyStore;
+}
+
+interface ConcurrencyStep extends Pick<ConcurrencyConfig, "key" | "max"> {
+	limiter: ConcurrencyLimiter;
+	waitMs?: number;
+}
+
+interface DedupeStep extends DedupeConfig {
+	registry: InFlightRegistry;
+}
+
+interface CacheStep extends Pick<CacheConfig, "key" | "tags" | "shared" | "name"> {
+	ttlMs: number;
+}
+
+interface HookStep {
+	event: keyof LifecycleHooks;
+	hook: LifecycleHooks[keyof LifecycleHooks];
+}
+
+/** Steps that configure the action rather than run on each call. */
+const PASSIVE_STEPS = new Set<PipelineStepType>(["hook", "skip", "timeout", "name", "actionState"]);
+
+/** Hooks of one action, builder hooks first and guard-wide hooks last. */
+type HookSet = { [K in keyof LifecycleHooks]-?: NonNullable<LifecycleHooks[K]>[] };
+
+/** Per-call state shared by the pipeline runner, the error reporter and the hooks. */
+interface Invocation {
+	ctx: MiddlewareContext;
+	hooks: HookSet;
+	labels: MetricLabels;
+	/** Span of this call when the guard has a tracer. */
+	span?: Span;
+	/** The step that rejected the call and the failure it returned. */
+	blocked?: { step: RejectingStep; result: ActionFailure };
+	/** Prefix of the action's keys in shared stores, so actions never read each other's entries. */
+	namespace: string;
+}
+
 type RateLimiterFn = ReturnType<typeof createRateLimiter>;
 
+/** Where a builder keeps its steps, so fragments can be copied between builders and guards. */
+const STEPS = Symbol("actionguard.steps");
+
+/** Actions built in this process, to namespace the stored results of unnamed actions. */
+let actionCount = 0;
+
+/**
+ * Read the steps of a builder passed to `.pipe()`.
+ */
+function getSteps(fragment: unknown): PipelineStep[] {
+	const steps =
+		fragment !== null && typeof fragment === "object"
+			? (fragment as { [STEPS]?: PipelineStep[] })[STEPS]
+			: undefined;
+
+	if (!steps) {
+		throw new Error("pipe() expects a builder or a function");
+	}
+
+	return steps;
+}
+
+/**
+ * Split Server Action arguments into the input and the previous state.
+ * Supports `action(input)`, `<form action>` (`action(formData)`) and
+ * `useActionState` (`action(prevState, formData)`). With `stateful` set by
+ * `.actionState()`, the first argument is always the previous state.
+ */
+function parseActionArgs(
+	args: unknown[],
+	stateful: boolean,
+): { input: unknown; prevState: unknown } {
+	if (stateful || (args.length >= 2 && isFormData(args[1]))) {
+		return { input: args[1], prevState: args[0] };
+	}
+
+	return { input: args[0], prevState: undefined };
+}
+
+/**
+ * Run a custom middleware around the rest of the pipeline.
+ * The middleware's own result wins; otherwise the downstream result is passed through.
+ * A downstream error that settles after the middleware returned its own result is
+ * passed to `onLateError`, since nothing else can observe it.
+ */
+async function runMiddleware(
+	middleware: Middleware,
+	ctx: MiddlewareContext,
+	next: () => Promise<ActionResult<unknown>>,
+	onLateError: (error: unknown) => void,
+): Promise<ActionResult<unknown>> {
+	let downstream: Promise<ActionResult<unknown>> | undefined;
+	let settled = false;
+
+	const result = await middleware(ctx, () => {
+		if (downstream) {
+			return Promise.reject(new Error("next() called multiple times"));
+		}
+		downstream = next();
+		downstream.then(
+			() => {
+				settled = true;
+			},
+			() => {
+				settled = true;
+			},
+		);
+		return downstream;
+	});
+
+	if (result) {
+		if (downstream && !settled) {
+			downstream.catch(onLateError);
+		}
+		return result;
+	}
+
+	if (!downstream) {
+		throw new Error("Middleware must call next() or return an ActionResult");
+	}
+
+	return downstream;
+}
+
+const RESERVED_CONTEXT_KEYS = new Set([
+	"user",
+	"input",
+	"headers",
+	"metadata",
+	"signal",
+	"bindArgs",
+]);
+
 /**
- * Resolve a rate-limit key from the middleware context.
- * Priority: per-action identifier fn > user ID > IP from headers > "anonymous".
+ * Merge fields returned by a `.context()` resolver into the middleware context.
+ * Built-in fields are owned by the pipeline and cannot be replaced.
  */
-function resolveRateLimitKey(ctx: MiddlewareContext, rlConfig: RateLimitConfig): string {
-	if (rlConfig.identifier) {
-		return rlConfig.identifier(ctx);
+function extendContext(ctx: MiddlewareContext, extension: unknown): void {
+	if (extension === null || typeof extension !== "object" || Array.isArray(extension)) {
+		throw new Error("Context resolver must return an object");
 	}
 
-	if (ctx.user) {
-		return `user:${String(ctx.user)}`;
+	for (const key of Object.keys(extension)) {
+		if (RESERVED_CONTEXT_KEYS.has(key)) {
+			throw new Error(`Context resolver cannot override ctx.${key}`);
+		}
 	}
 
-	const forwarded = ctx.headers.get("x-forwarded-for");
-	if (forwarded) {
-		return `ip:${forwarded.split(",")[0].trim()}`;
+	Object.assign(ctx, extension);
+}
+
+/**
+ * Write the post-execution audit entry when an `.audit()` step ran.
+ */
+function logAudit(ctx: MiddlewareContext): void {
+	if (!ctx.metadata.audit) {
+		return;
 	}
 
-	const realIp = ctx.headers.get("x-real-ip");
-	if (realIp) {
-		return `ip:${realIp.trim()}`;
+	const auditConfig = ctx.metadata.audit as AuditConfig;
+	const authorization = ctx.metadata.authorization as PolicyDecision | undefined;
+	const entry: AuditEntry = {
+		timestamp: new Date(now()).toISOString(),
+		action: auditConfig.action,
+		resource: auditConfig.resource,
+		userId: userId(ctx.user) ?? "anonymous",
+		policy: authorization?.policy,
+		skipped: ctx.metadata.skipped as SkippedStep[] | undefined,
+		success: true,
+	};
+
+	const sink = getOverrides()?.audit;
+	if (sink) {
+		sink(entry);
+	} else {
+		console.log(JSON.stringify(entry));
 	}
+}
 
-	return "anonymous";
+/** Steps that can answer a call with a stored or shared result, skipping the steps after them. */
+const STORING_STEPS = new Set<PipelineStepType>(["idempotent", "dedupe", "cache"]);
+
+/**
+ * Reject storing steps chained before `.auth()`. They would scope results to the
+ * anonymous caller and hand them out without authenticating later callers.
+ */
+function assertStoredAfterAuth(pipeline: PipelineStep[]): void {
+	const index = pipeline.findIndex((step) => STORING_STEPS.has(step.type));
+	if (index !== -1 && pipeline.slice(index + 1).some((step) => step.type === "auth")) {
+		throw new Error(`.${pipeline[index].type}() must come after .auth()`);
+	}
 }
 
-export function createActionGuard(config: ActionGuardConfig = {}): ActionGuardInstance {
+/**
+ * Require `.name()` when an action keeps results in a store other than the in-memory
+ * default. The fallback namespace depends on module load order, which can differ
+ * between the processes sharing the store.
+ */
+function assertNamedForSharedStores(
+	pipeline: PipelineStep[],
+	name: string | undefined,
+	cacheStore: CacheStore,
+): void {
+	if (name !== undefined) {
+		return;
+	}
+
+	for (const step of pipeline) {
+		if (
+			step.type === "idempotent" &&
+			!((step.config as IdempotencyStep).store instanceof MemoryIdempotencyStore)
+		) {
+			throw new Error(".idempotent() with a shared store requires .name() on the action");
+		}
+		if (
+			step.type === "cache" &&
+			!(step.config as CacheStep).name &&
+			!(cacheStore instanceof MemoryCacheStore)
+		) {
+			throw new Error(".cache() with a shared store requires a name on the step or the action");
+		}
+	}
+}
+
+/**
+ * Add the steps enforced by the guard config to an action's pipeline. CSRF runs first;
+ * sanitize and audit run right before the handler so they see the validated input.
+ * Steps the action chains itself or opts out of with `.skip()` are not added.
+ */
+function withEnforcedSteps(
+	steps: PipelineStep[],
+	enforce: EnforcedSteps | undefined,
+): PipelineStep[] {
+	if (!enforce) {
+		return steps;
+	}
+
+	const skipped = new Set(
+		steps.filter((step) => step.type === "skip").map((step) => (step.config as SkippedStep).step),
+	);
+	const needs = (type: SkippableStep) =>
+		!skipped.has(type) && !steps.some((step) => step.type === type);
+
+	const before: PipelineStep[] = [];
+	const after: PipelineStep[] = [];
+	if (enforce.csrf && needs("csrf")) {
+		before.push({ type: "csrf" });
+	}
+	if (enforce.sanitize && needs("sanitize")) {
+		after.push({ type: "sanitize" });
+	}
+	if (enforce.audit && needs("audit")) {
+		after.push({ type: "audit", config: enforce.audit });
+	}
+
+	return [...before, ...steps, ...after];
+}
+
+/**
+ * Summarize a step's configuration for `describe()`. Only plain data is listed.
+ */
+function describeStepConfig(step: PipelineStep): Record<string, unknown> | undefined {
+	switch (step.type) {
+		case "roles":
+			return { roles: step.config };
+		case "authorize":
+			return { policy: policyName(step.config as PolicyLike<unknown>) };
+		case "schema":
+		case "outputSchema":
+			return { schema: describeSchema(step.config) };
+		case "bindArgs":
+			return { schemas: (step.config as ZodSchema[]).map((schema) => describeSchema(schema)) };
+		case "rateLimit": {
+			const { maxRequests, window } = step.config as RateLimitConfig;
+			return { maxRequests, window };
+		}
+		case "audit": {
+			const { action, resource } = step.config as AuditConfig;
+			return { action, resource };
+		}
+		case "timeout":
+			return { ms: step.config };
+		case "idempotent": {
+			const { header, field, ttlMs } = step.config as IdempotencyStep;
+			return field ? { field, ttlMs } : { header: header ?? "idempotency-key", ttlMs };
+		}
+		case "concurrency": {
+			const { max, waitMs } = step.config as ConcurrencyStep;
+			return { max, waitMs };
+		}
+		case "cache": {
+			const { name, ttlMs, shared, tags } = step.config as CacheStep;
+			return { name, ttlMs, shared: shared === true, tags: Array.isArray(tags) ? tags : undefined };
+		}
+		case "use":
+			return { name: (step.config as Middleware).name || "anonymous" };
+		case "name":
+			return { name: step.config };
+		case "skip":
+			return { ...(step.config as SkippedStep) };
+		case "hook":
+			return { event: (step.config as HookStep).event };
+		default:
+			return undefined;
+	}
+}
+
+function describeStep(step: PipelineStep): StepDescription {
+	const config = describeStepConfig(step);
+	return config ? { type: step.type, config } : { type: step.type };
+}
+
+/** Metrics label for the outcome of a call: "OK" or the failure code. */
+function outcomeCode(result: ActionResult<unknown>): string {
+	return result.success ? "OK" : (result.code ?? "UNKNOWN");
+}
+
+function timedOut(): ActionFailure {
+	return { success: false, error: "Action timed out", code: "TIMEOUT" };
+}
+
+/**
+ * Race a call against its time limit. On expiry `ctx.signal` is aborted and the call
+ * ends with `TIMEOUT`; the pipeline stops before its next step, while work that ignores
+ * the signal keeps running in the background. Errors thrown by that work after expiry
+ * are passed to `onLateError`.
+ */
+async function withTimeout(
+	run: () => Promise<ActionResult<unknown>>,
+	timeoutMs: number | undefined,
+	controller: AbortController,
+	invocation: Invocation,
+	onLateError: (error: unknown) => void,
+): Promise<ActionResult<unknown>> {
+	if (timeoutMs === undefined) {
+		return run();
+	}
+
+	const running = run();
+	running.catch((error) => {
+		if (controller.signal.aborted) {
+			onLateError(error);
+		}
+	});
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const expired = new Promise<ActionResult<unknown>>((resolve) => {
+		timer = setTimeout(() => {
+			const result = timedOut();
+			invocation.blocked = { step: "timeout", result };
+			controller.abort(new DOMException(`Action timed out after ${timeoutMs}ms`, "TimeoutError"));
+			resolve(result);
+		}, timeoutMs);
+	});
+
+	try {
+		return await Promise.race([running, expired]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+export function createActionGuard<TUser = unknown>(
+	config: ActionGuardConfig<TUser> = {},
+): ActionGuardInstance<TUser> {
+	const cacheStore: CacheStore = config.cache?.store ?? new MemoryCacheStore();
+
+	// Parsed once so an invalid default fails when the guard is created
+	const defaultTimeoutMs = config.timeout ? parseWindow(config.timeout) : undefined;
+	const metrics = config.metrics ?? new MetricsRegistry();
+	const events = new SecurityEventBus();
+
 	// Cache rate limiter instances per step config object to avoid recreation on every request.
 	const rateLimiterCache = new Map<RateLimitConfig, RateLimiterFn>();
 
@@ -72,13 +467,637 @@ export function createActionGuard(config: ActionGuardConfig = {}): ActionGuardIn
 		return limiter;
 	}
 
-	function createBuilder(steps: PipelineStep[] = []): ActionBuilder {
-		const builder: ActionBuilder = {
+	/**
+	 * Execute a single built-in step against the context.
+	 * Returns a failure result to stop the pipeline, or undefined to continue.
+	 */
+	async function runStep(
+		step: PipelineStep,
+		ctx: MiddlewareContext,
+	): Promise<ActionFailure | undefined> {
+		switch (step.type) {
+			case "auth": {
+				const stub = getOverrides()?.user;
+				if (!stub && !config.auth) {
+					throw new Error("Auth provider not configured");
+				}
+				const user = stub ? stub.value : await config.auth?.resolve(ctx.headers);
+				if (!user) {
+					return {
+						success: false,
+						error: "Unauthorized",
+						code: "AUTH_FAILED",
+					};
+				}
+				ctx.user = user;
+				return undefined;
+			}
+			case "roles": {
+				return checkRoles(step.config as string[], ctx);
+			}
+			case "authorize": {
+				return authorize(step.config as PolicyLike<unknown>, ctx);
+			}
+			case "schema": {
+				const schema = step.config as ZodSchema;
+				const result = schema.safeParse(ctx.input);
+				if (!result.success) {
+					const format = config.validation?.formatErrors ?? formatValidationErrors;
+					return {
+						success: false,
+						error: "Validation failed",
+						code: "VALIDATION_ERROR",
+						...format(result.error),
+					};
+				}
+				ctx.input = result.data;
+				return undefined;
+			}
+			case "bindArgs": {
+				return validateBindArgs(step.config as ZodSchema[], ctx);
+			}
+			case "rateLimit": {
+				const rlConfig = step.config as RateLimitConfig;
+				const limiter = getOrCreateLimiter(rlConfig);
+				const key = resolveRequestKey(ctx, rlConfig.identifier);
+				const rlResult = await limiter(key);
+				if (!rlResult.allowed) {
+					return {
+						success: false,
+						error: "Rate limit exceeded",
+						code: "RATE_LIMITED",
+					};
+				}
+				ctx.metadata.rateLimit = {
+					remaining: rlResult.remaining,
+					resetAt: rlResult.resetAt.toISOString(),
+				};
+				return undefined;
+			}
+			case "audit": {
+				// Console audit logging (v0.1)
+				const auditConfig = step.config as AuditConfig;
+				ctx.metadata.audit = auditConfig;
+				return undefined;
+			}
+			case "csrf": {
+				const csrfResult = validateCsrf(ctx.headers, config.csrf);
+				if (!csrfResult.valid) {
+					return {
+						success: false,
+						error: csrfResult.error ?? "CSRF validation failed",
+						code: "CSRF_FAILED",
+					};
+				}
+				return undefined;
+			}
+			case "sanitize": {
+				ctx.input = sanitizeInput(ctx.input);
+				return undefined;
+			}
+			case "context": {
+				const resolver = step.config as ContextResolver<MiddlewareContext, Record<string, unknown>>;
+				extendContext(ctx, await resolver(ctx));
+				return undefined;
+			}
+			default:
+				return undefined;
+		}
+	}
+
+	/**
+	 * Collect the hooks registered on the builder, followed by the guard-wide ones.
+	 * Without a guard-wide `onError`, unexpected errors are logged to the console.
+	 */
+	function collectHooks(steps: PipelineStep[]): HookSet {
+		const hooks: HookSet = { onSuccess: [], onError: [], onBlocked: [], onSettled: [] };
+
+		for (const step of steps) {
+			if (step.type === "hook") {
+				const { event, hook } = step.config as HookStep;
+				(hooks[event] as unknown[]).push(hook);
+			}
+		}
+
+		if (config.onSuccess) {
+			hooks.onSuccess.push(config.onSuccess);
+		}
+		if (config.onBlocked) {
+			hooks.onBlocked.push(config.onBlocked);
+		}
+		if (config.onSettled) {
+			hooks.onSettled.push(config.onSettled);
+		}
+		hooks.onError.push(
+			config.onError ??
+				((error, { correlationId }) => {
+					console.error(`[actionguard] Unhandled error (correlationId: ${correlationId})`, error);
+				}),
+		);
+
+		return hooks;
+	}
+
+	/**
+	 * Report an unexpected error through the `onError` hooks and
+	 * return the correlation id shared with the client.
+	 */
+	async function reportError(error: unknown, invocation: Invocation): Promise<string> {
+		const correlationId = randomUUID();
+		emit("action.error", invocation, { error, correlationId });
+		for (const hook of invocation.hooks.onError) {
+			try {
+				await hook(error, { correlationId, ctx: invocation.ctx });
+			} catch {
+				// A failing error reporter must not change the response
+			}
+		}
+		return correlationId;
+	}
+
+	/**
+	 * Emit a security event with the caller details of the invocation.
+	 * The payload is only built when the event has listeners.
+	 */
+	function emit<E extends SecurityEventName>(
+		event: E,
+		invocation: Invocation,
+		details: Omit<SecurityEvents[E], keyof SecurityEventInfo>,
+		keyFn?: (ctx: MiddlewareContext) => string,
+	): void {
+		if (!events.has(event)) {
+			return;
+		}
+
+		const { ctx, labels } = invocation;
+		events.emit(event, {
+			...labels,
+			userId: userId(ctx.user),
+			ip: clientIp(ctx.headers),
+			key: resolveRequestKey(ctx, keyFn),
+			ctx,
+			...details,
+		} as SecurityEvents[E]);
+	}
+
+	/**
+	 * Emit the security event for a rejection by a built-in step, if its code has one.
+	 */
+	function emitRejection(step: PipelineStep, invocation: Invocation, result: ActionFailure): void {
+		if (!result.code || !Object.hasOwn(REJECTION_EVENTS, result.code)) {
+			return;
+		}
+
+		const rateLimit = step.type === "rateLimit" ? (step.config as RateLimitConfig) : undefined;
+		emit(
+			REJECTION_EVENTS[result.code],
+			invocation,
+			{
+				step: step.type as RejectingStep,
+				config: step.type === "csrf" ? config.csrf : step.config,
+				result,
+			},
+			rateLimit?.identifier,
+		);
+	}
+
+	/**
+	 * Call lifecycle hooks in order. A throwing hook is reported through `onError`
+	 * and does not stop the remaining hooks or change the result.
+	 */
+	async function callHooks<TArgs extends unknown[]>(
+		hooks: Array<(...args: TArgs) => void | Promise<void>>,
+		args: TArgs,
+		invocation: Invocation,
+	): Promise<void> {
+		for (const hook of hooks) {
+			try {
+				await hook(...args);
+			} catch (error) {
+				await reportError(error, invocation);
+			}
+		}
+	}
+
+	/**
+	 * Run the hooks matching the final result of a call.
+	 */
+	async function settle(result: ActionResult<unknown>, invocation: Invocation): Promise<void> {
+		const { ctx, hooks, blocked } = invocation;
+
+		if (result.success) {
+			await callHooks(hooks.onSuccess, [result.data, { ctx }], invocation);
+		} else if (blocked?.result === result) {
+			// Only when the rejection reached the client unchanged
+			await callHooks(
+				hooks.onBlocked,
+				[result, { ctx, step: blocked.step, code: result.code }],
+				invocation,
+			);
+		}
+
+		await callHooks(hooks.onSettled, [result, { ctx }], invocation);
+	}
+
+	/**
+	 * Record the outcome of a call in metrics, events and the action span,
+	 * then run the settle hooks.
+	 */
+	async function complete(
+		result: ActionResult<unknown>,
+		invocation: Invocation,
+		startedAt: number,
+	): Promise<void> {
+		const seconds = (performance.now() - startedAt) / 1000;
+		metrics.recordInvocation(invocation.labels, outcomeCode(result), seconds);
+		if (result.success) {
+			emit("action.success", invocation, { data: result.data });
+		}
+
+		await settle(result, invocation);
+		endActionSpan(invocation.span, result);
+	}
+
+	/**
+	 * Convert a thrown value into a failure result.
+	 * `ActionError` messages are surfaced; anything else is reported through
+	 * `onError` and replaced by a generic message with a correlation id.
+	 */
+	async function handleError(error: unknown, invocation: Invocation): Promise<ActionFailure> {
+		if (isActionError(error)) {
+			return { success: false, error: error.message, code: error.code, status: error.status };
+		}
+
+		// Never leak internal errors
+		const correlationId = await reportError(error, invocation);
+		return { success: false, error: "Internal error", code: "INTERNAL_ERROR", correlationId };
+	}
+
+	/**
+	 * Validate a successful handler result against the output schema and replace it
+	 * with the parsed value. Failures are reported like internal errors: the issues
+	 * describe server data and are never sent to the client.
+	 */
+	async function validateOutput(
+		schema: ZodSchema,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const result = await next();
+		if (!result.success) {
+			return result;
+		}
+
+		const parsed = await schema.safeParseAsync(result.data);
+		if (!parsed.success) {
+			const correlationId = await reportError(
+				new Error("Action output failed schema validation", { cause: parsed.error }),
+				invocation,
+			);
+			return {
+				success: false,
+				error: "Output validation failed",
+				code: "OUTPUT_VALIDATION_ERROR",
+				correlationId,
+			};
+		}
+
+		return { success: true, data: parsed.data };
+	}
+
+	/**
+	 * Require the resolved user to hold one of the given roles.
+	 */
+	async function checkRoles(
+		roles: string[],
+		ctx: MiddlewareContext,
+	): Promise<ActionFailure | undefined> {
+		if (ctx.user === null) {
+			return { success: false, error: "Unauthorized", code: "AUTH_FAILED" };
+		}
+
+		if (!(await hasAnyRole(ctx.user as TUser, roles, config.rbac))) {
+			return { success: false, error: "Forbidden", code: "FORBIDDEN" };
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Evaluate an `.authorize()` policy and record the decision for the audit entry.
+	 */
+	async function authorize(
+		policy: PolicyLike<unknown>,
+		ctx: MiddlewareContext,
+	): Promise<ActionFailure | undefined> {
+		const decision = await evaluatePolicy(policy, { input: ctx.input, user: ctx.user, ctx });
+		ctx.metadata.authorization = decision;
+
+		if (!decision.allowed) {
+			return { success: false, error: "Forbidden", code: "FORBIDDEN" };
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Validate bound arguments against their schemas and replace them with the parsed values.
+	 */
+	function validateBindArgs(
+		schemas: ZodSchema[],
+		ctx: MiddlewareContext & { bindArgs?: unknown[] },
+	): ActionFailure | undefined {
+		const raw = ctx.bindArgs ?? [];
+		const format = config.validation?.formatErrors ?? formatValidationErrors;
+		const parsed: unknown[] = [];
+		const errors: ValidationErrors[] = [];
+		let failed = false;
+
+		for (const [i, schema] of schemas.entries()) {
+			const result = schema.safeParse(raw[i]);
+			if (result.success) {
+				parsed.push(result.data);
+				errors.push({ formErrors: [], fieldErrors: {} });
+			} else {
+				failed = true;
+				errors.push(format(result.error));
+			}
+		}
+
+		if (failed) {
+			return {
+				success: false,
+				error: "Invalid bound arguments",
+				code: "VALIDATION_ERROR",
+				bindArgsErrors: errors,
+			};
+		}
+
+		ctx.bindArgs = parsed;
+		return undefined;
+	}
+
+	/**
+	 * Run a `.use()` middleware and record its own failure results as rejections.
+	 */
+	async function runCustomMiddleware(
+		middleware: Middleware,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		let downstream: ActionResult<unknown> | undefined;
+		const result = await runMiddleware(
+			middleware,
+			invocation.ctx,
+			async () => {
+				downstream = await next();
+				return downstream;
+			},
+			(error) => void reportError(error, invocation),
+		);
+
+		if (!result.success && result !== downstream) {
+			invocation.blocked = { step: "use", result };
+		}
+		return result;
+	}
+
+	/**
+	 * Run the rest of the pipeline at most once per idempotency key.
+	 * Only successful results are stored; failures free the key for a retry.
+	 */
+	async function runIdempotent(
+		step: IdempotencyStep,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const { ctx } = invocation;
+		const key = readIdempotencyKey(ctx, step);
+		if (!key) {
+			return next();
+		}
+
+		const storeKey = `${invocation.namespace}:${scopeOf(ctx)}:${key}`;
+		const existing = await step.store.begin(storeKey, step.ttlMs);
+
+		if (existing?.status === "completed") {
+			ctx.metadata.idempotency = { key, replayed: true };
+			return existing.result;
+		}
+
+		if (existing) {
+			const result: ActionFailure = {
+				success: false,
+				error: "A request with this idempotency key is already in progress",
+				code: "IDEMPOTENCY_IN_PROGRESS",
+			};
+			invocation.blocked = { step: "idempotent", result };
+			return result;
+		}
+
+		ctx.metadata.idempotency = { key, replayed: false };
+
+		let result: ActionResult<unknown>;
+		try {
+			result = await next();
+		} catch (error) {
+			await step.store.release(storeKey);
+			throw error;
+		}
+
+		if (result.success) {
+			await step.store.complete(storeKey, result, step.ttlMs);
+		} else {
+			await step.store.release(storeKey);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Run the rest of the pipeline while holding a concurrency slot for the caller's key.
+	 */
+	async function runLimited(
+		step: ConcurrencyStep,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const { ctx } = invocation;
+		const key = resolveRequestKey(ctx, step.key);
+		const release = await step.limiter.acquire(key, step.waitMs, ctx.signal);
+
+		if (!release) {
+			const result: ActionFailure = {
+				success: false,
+				error: "Too many concurrent requests",
+				code: "CONCURRENCY_LIMITED",
+			};
+			invocation.blocked = { step: "concurrency", result };
+			return result;
+		}
+
+		try {
+			return await next();
+		} finally {
+			release();
+		}
+	}
+
+	/** Scope of the current user for idempotency, dedupe and cache keys. */
+	function scopeOf(ctx: MiddlewareContext): string {
+		return userScope(ctx.user as TUser | null, config.scope);
+	}
+
+	/**
+	 * Run the rest of the pipeline once for all concurrent calls of the action with the same key.
+	 */
+	async function runDeduped(
+		step: DedupeStep,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const { ctx } = invocation;
+		const key = step.key ? step.key(ctx) : `${scopeOf(ctx)}:${stableStringify(ctx.input)}`;
+		// Actions built from one preset share the step and its registry
+		const { result, info } = await step.registry.run(`${invocation.namespace}:${key}`, next);
+		ctx.metadata.dedupe = info;
+		return result;
+	}
+
+	/**
+	 * Return a cached result, or run the rest of the pipeline and cache a successful result.
+	 */
+	async function runCached(
+		step: CacheStep,
+		invocation: Invocation,
+		next: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const { ctx } = invocation;
+		const scope = step.shared ? "shared" : scopeOf(ctx);
+		const inputKey = step.key ? step.key(ctx) : stableStringify(ctx.input);
+		// Actions built from one preset share the step, so unnamed entries use the action's namespace
+		const key = `${step.name ?? invocation.namespace}:${scope}:${inputKey}`;
+
+		const cached = await cacheStore.get(key);
+		if (cached) {
+			ctx.metadata.cache = { hit: true };
+			return cached;
+		}
+
+		ctx.metadata.cache = { hit: false };
+		const result = await next();
+		if (result.success) {
+			const tags = typeof step.tags === "function" ? step.tags(ctx) : (step.tags ?? []);
+			await cacheStore.set(key, result, { ttlMs: step.ttlMs, tags });
+		}
+		return result;
+	}
+
+	/**
+	 * Run a step, or the handler, in its own span and record its latency.
+	 */
+	async function instrument<TResult extends ActionResult<unknown> | undefined>(
+		invocation: Invocation,
+		name: string,
+		run: () => Promise<TResult>,
+	): Promise<TResult> {
+		const start = performance.now();
+		try {
+			return await traceStep(config.tracer, invocation.span, name, invocation.ctx, run);
+		} finally {
+			metrics.recordStep(invocation.labels, name, (performance.now() - start) / 1000);
+		}
+	}
+
+	/**
+	 * Run the steps from `index` onwards, then the handler.
+	 * Wrapping steps such as `.use()` receive the rest of the pipeline as `next`.
+	 */
+	async function runPipeline(
+		steps: PipelineStep[],
+		index: number,
+		invocation: Invocation,
+		terminal: () => Promise<ActionResult<unknown>>,
+	): Promise<ActionResult<unknown>> {
+		const { ctx } = invocation;
+		if (ctx.signal.aborted) {
+			// Timed out: the caller already got TIMEOUT, so run no further step or handler
+			return timedOut();
+		}
+
+		const step = steps[index];
+		if (!step) {
+			return instrument(invocation, "handler", terminal);
+		}
+
+		const next = () => runPipeline(steps, index + 1, invocation, terminal);
+		const traced = <TResult extends ActionResult<unknown> | undefined>(
+			run: () => Promise<TResult>,
+		) => instrument(invocation, step.type, run);
+
+		switch (step.type) {
+			case "use":
+				// Custom middleware wraps every later step and the handler
+				return traced(() => runCustomMiddleware(step.config as Middleware, invocation, next));
+			case "outputSchema":
+				return traced(() => validateOutput(step.config as ZodSchema, invocation, next));
+			case "idempotent":
+				return traced(() => runIdempotent(step.config as IdempotencyStep, invocation, next));
+			case "concurrency":
+				return traced(() => runLimited(step.config as ConcurrencyStep, invocation, next));
+			case "dedupe":
+				return traced(() => runDeduped(step.config as DedupeStep, invocation, next));
+			case "cache":
+				return traced(() => runCached(step.config as CacheStep, invocation, next));
+			default: {
+				const rejection = PASSIVE_STEPS.has(step.type)
+					? undefined
+					: await traced(() => runStep(step, ctx));
+				if (rejection) {
+					invocation.blocked = { step: step.type as RejectingStep, result: rejection };
+					emitRejection(step, invocation, rejection);
+					return rejection;
+				}
+				return next();
+			}
+		}
+	}
+
+	function createBuilder<
+		TInput = unknown,
+		TCtx extends object = object,
+		TOutputSchema extends ZodSchema | undefined = undefined,
+	>(steps: PipelineStep[] = []): ActionBuilder<TInput, TUser, TCtx, TOutputSchema> {
+		const builder: ActionBuilder<TInput, TUser, TCtx, TOutputSchema> = {
 			auth() {
-				return createBuilder([...steps, { type: "auth" }]);
+				return createBuilder<TInput, TCtx & { user: TUser }, TOutputSchema>([
+					...steps,
+					{ type: "auth" },
+				]);
+			},
+			roles(...roles: string[]) {
+				return createBuilder([...steps, { type: "roles", config: roles }]);
+			},
+			authorize(policy) {
+				return createBuilder([...steps, { type: "authorize", config: policy }]);
+			},
+			schema<T extends ZodSchema>(schema: T) {
+				return createBuilder<z.infer<T>, TCtx, TOutputSchema>([
+					...steps,
+					{ type: "schema", config: schema },
+				]);
 			},
-			schema(schema: ZodSchema) {
-				return createBuilder([...steps, { type: "schema", config: schema }]);
+			actionState() {
+				return createBuilder([...steps, { type: "actionState" }]);
+			},
+			bindArgsSchemas<const T extends readonly ZodSchema[]>(schemas: T) {
+				return createBuilder<TInput, TCtx & { bindArgs: InferBindArgs<T> }, TOutputSchema>([
+					...steps,
+					{ type: "bindArgs", config: schemas },
+				]);
+			},
+			outputSchema<T extends ZodSchema>(schema: T) {
+				return createBuilder<TInput, TCtx, T>([...steps, { type: "outputSchema", config: schema }]);
 			},
 			rateLimit(rlConfig: RateLimitConfig) {
 				return createBuilder([...steps, { type: "rateLimit", config: rlConfig }]);
@@ -92,126 +1111,199 @@ export function createActionGuard(config: ActionGuardConfig = {}): ActionGuardIn
 			sanitize() {
 				return createBuilder([...steps, { type: "sanitize" }]);
 			},
-			action<T>(
-				handler: (params: { input: unknown; ctx: MiddlewareContext }) => Promise<T>,
-			): (...args: unknown[]) => Promise<ActionResult<T>> {
-				return async (...args: unknown[]): Promise<ActionResult<T>> => {
-					const input = args[0];
-					const ctx: MiddlewareContext = {
+			idempotent(idempotencyConfig: IdempotencyConfig = {}) {
+				const idempotencyStep: IdempotencyStep = {
+					header: idempotencyConfig.header,
+					field: idempotencyConfig.field,
+					ttlMs: parseWindow(idempotencyConfig.ttl ?? config.idempotency?.ttl ?? "24h"),
+					store:
+						idempotencyConfig.store ?? config.idempotency?.store ?? new MemoryIdempotencyStore(),
+				};
+				return createBuilder([...steps, { type: "idempotent", config: idempotencyStep }]);
+			},
+			concurrency(concurrencyConfig: ConcurrencyConfig) {
+				const concurrencyStep: ConcurrencyStep = {
+					key: concurrencyConfig.key,
+					max: concurrencyConfig.max,
+					limiter: new ConcurrencyLimiter(concurrencyConfig.max),
+					waitMs: concurrencyConfig.wait ? parseWindow(concurrencyConfig.wait) : undefined,
+				};
+				return createBuilder([...steps, { type: "concurrency", config: concurrencyStep }]);
+			},
+			dedupe(dedupeConfig: DedupeConfig = {}) {
+				const dedupeStep: DedupeStep = { ...dedupeConfig, registry: new InFlightRegistry() };
+				return createBuilder([...steps, { type: "dedupe", config: dedupeStep }]);
+			},
+			cache(cacheConfig: CacheConfig) {
+				const cacheStep: CacheStep = {
+					key: cacheConfig.key,
+					tags: cacheConfig.tags,
+					shared: cacheConfig.shared,
+					name: cacheConfig.name,
+					ttlMs: parseWindow(cacheConfig.ttl),
+				};
+				return createBuilder([...steps, { type: "cache", config: cacheStep }]);
+			},
+			timeout(duration: string) {
+				return createBuilder([...steps, { type: "timeout", config: parseWindow(duration) }]);
+			},
+			use(middleware) {
+				return createBuilder([...steps, { type: "use", config: middleware }]);
+			},
+			onSuccess(hook) {
+				return createBuilder([...steps, { type: "hook", config: { event: "onSuccess", hook } }]);
+			},
+			onError(hook) {
+				return createBuilder([...steps, { type: "hook", config: { event: "onError", hook } }]);
+			},
+			onBlocked(hook) {
+				return createBuilder([...steps, { type: "hook", config: { event: "onBlocked", hook } }]);
+			},
+			onSettled(hook) {
+				return createBuilder([...steps, { type: "hook", config: { event: "onSettled", hook } }]);
+			},
+			context<TExt extends Record<string, unknown>>(
+				resolver: ContextResolver<ActionContext<TInput, TUser, TCtx>, TExt>,
+			) {
+				return createBuilder<TInput, TCtx & TExt, TOutputSchema>([
+					...steps,
+					{ type: "context", config: resolver },
+				]);
+			},
+			name(name: string) {
+				return createBuilder([...steps, { type: "name", config: name }]);
+			},
+			skip(step, options) {
+				if (!options?.reason?.trim()) {
+					throw new Error(`skip("${step}") requires a reason`);
+				}
+				const skipped: SkippedStep = { step, reason: options.reason };
+				return createBuilder([...steps, { type: "skip", config: skipped }]);
+			},
+			pipe(fragment: unknown) {
+				if (typeof fragment === "function") {
+					return fragment(builder);
+				}
+				return createBuilder([...steps, ...getSteps(fragment)]);
+			},
+			action<T extends HandlerOutput<TOutputSchema>>(
+				handler: (
+					params: ActionHandlerParams<TInput, ActionContext<TInput, TUser, TCtx>>,
+				) => Promise<T>,
+			): GuardedAction<ActionOutput<T, TOutputSchema>> {
+				const pipeline = withEnforcedSteps(steps, config.enforce);
+				const skipped = steps
+					.filter((step) => step.type === "skip")
+					.map((step) => step.config as SkippedStep);
+				// Form submissions are decoded against the first schema so values can be coerced
+				const formSchema = steps.find((step) => step.type === "schema")?.config;
+				const stateful = steps.some((step) => step.type === "actionState");
+				const bindArgsCount =
+					(steps.find((step) => step.type === "bindArgs")?.config as ZodSchema[] | undefined)
+						?.length ?? 0;
+				const hooks = collectHooks(steps);
+				const audit = pipeline.filter((step) => step.type === "audit").at(-1)?.config as
+					| AuditConfig
+					| undefined;
+				const name = steps.filter((step) => step.type === "name").at(-1)?.config as
+					| string
+					| undefined;
+				const labels: MetricLabels = {
+					action: name ?? audit?.action ?? "anonymous",
+					resource: audit?.resource,
+				};
+				assertStoredAfterAuth(pipeline);
+				assertNamedForSharedStores(pipeline, name, cacheStore);
+				// Only stores private to this process see the fallback namespace
+				const namespace = name ?? `action:${++actionCount}`;
+				const timeoutMs =
+					(steps.filter((step) => step.type === "timeout").at(-1)?.config as number | undefined) ??
+					defaultTimeoutMs;
+
+				const guarded = async (
+					...args: unknown[]
+				): Promise<ActionResult<ActionOutput<T, TOutputSchema>>> => {
+					const { input, prevState } = parseActionArgs(args.slice(bindArgsCount), stateful);
+					const controller = new AbortController();
+					const ctx: MiddlewareContext & { bindArgs?: unknown[] } = {
 						user: null,
 						input,
 						headers: new Headers(),
-						metadata: {},
+						metadata: skipped.length > 0 ? { skipped } : {},
+						signal: controller.signal,
+					};
+					if (bindArgsCount > 0) {
+						ctx.bindArgs = args.slice(0, bindArgsCount);
+					}
+					const startedAt = performance.now();
+					const invocation: Invocation = {
+						ctx,
+						hooks,
+						labels,
+						namespace,
+						span: startActionSpan(config.tracer, audit),
 					};
 
-					try {
-						for (const step of steps) {
-							switch (step.type) {
-								case "auth": {
-									if (!config.auth) {
-										throw new Error("Auth provider not configured");
-									}
-									const user = await config.auth.resolve(ctx.headers);
-									if (!user) {
-										return {
-											success: false,
-											error: "Unauthorized",
-											code: "AUTH_FAILED",
-										};
-									}
-									ctx.user = user;
-									break;
-								}
-								case "schema": {
-									const schema = step.config as ZodSchema;
-									const result = schema.safeParse(ctx.input);
-									if (!result.success) {
-										return {
-											success: false,
-											error: "Validation failed",
-											code: "VALIDATION_ERROR",
-										};
-									}
-									ctx.input = result.data;
-									break;
-								}
-								case "rateLimit": {
-									const rlConfig = step.config as RateLimitConfig;
-									const limiter = getOrCreateLimiter(rlConfig);
-									const key = resolveRateLimitKey(ctx, rlConfig);
-									const rlResult = await limiter(key);
-									if (!rlResult.allowed) {
-										return {
-											success: false,
-											error: "Rate limit exceeded",
-											code: "RATE_LIMITED",
-										};
-									}
-									ctx.metadata.rateLimit = {
-										remaining: rlResult.remaining,
-										resetAt: rlResult.resetAt.toISOString(),
-									};
-									break;
-								}
-								case "audit": {
-									// Console audit logging (v0.1)
-									const auditConfig = step.config as AuditConfig;
-									ctx.metadata.audit = auditConfig;
-									break;
-								}
-								case "csrf": {
-									const csrfResult = validateCsrf(ctx.headers, config.csrf);
-									if (!csrfResult.valid) {
-										return {
-											success: false,
-											error: csrfResult.error ?? "CSRF validation failed",
-											code: "CSRF_FAILED",
-										};
-									}
-									break;
-								}
-								case "sanitize": {
-									ctx.input = sanitizeInput(ctx.input);
-									break;
-								}
-							}
+					const execute = async (): Promise<ActionResult<unknown>> => {
+						ctx.headers = await resolveRequestHeaders(config.headers);
+						if (isFormData(ctx.input)) {
+							ctx.input = decodeFormData(ctx.input, formSchema);
 						}
 
-						const data = await handler({ input: ctx.input, ctx });
-
-						// Post-execution audit log
-						if (ctx.metadata.audit) {
-							const auditConfig = ctx.metadata.audit as AuditConfig;
-							console.log(
-								JSON.stringify({
-									timestamp: new Date().toISOString(),
-									action: auditConfig.action,
-									resource: auditConfig.resource,
-									userId: ctx.user ? String(ctx.user) : "anonymous",
-									success: true,
-								}),
-							);
-						}
+						const terminal = async (): Promise<ActionResult<unknown>> => {
+							const data = await handler({
+								input: ctx.input as TInput,
+								ctx: ctx as ActionContext<TInput, TUser, TCtx>,
+								prevState,
+								bindArgs: (ctx.bindArgs ?? []) as ActionHandlerParams<
+									TInput,
+									ActionContext<TInput, TUser, TCtx>
+								>["bindArgs"],
+							});
+							logAudit(ctx);
+							return { success: true, data };
+						};
+
+						return runPipeline(pipeline, 0, invocation, terminal);
+					};
 
-						return { success: true, data };
+					let result: ActionResult<unknown>;
+					try {
+						result = await withActiveSpan(invocation.span, () =>
+							withTimeout(execute, timeoutMs, controller, invocation, (error) => {
+								void reportError(error, invocation);
+							}),
+						);
 					} catch (error) {
-						// Never leak internal errors
-						const message = error instanceof Error ? error.message : "Internal error";
-						return { success: false, error: message, code: "INTERNAL_ERROR" };
+						result = await handleError(error, invocation);
 					}
+
+					await complete(result, invocation, startedAt);
+					return result as ActionResult<ActionOutput<T, TOutputSchema>>;
 				};
+
+				const describe = (): ActionManifest => ({
+					steps: pipeline.map((step) =>
+						steps.includes(step) ? describeStep(step) : { ...describeStep(step), enforced: true },
+					),
+					timeoutMs,
+				});
+				Object.defineProperty(guarded, "describe", { value: describe });
+				return guarded as GuardedAction<ActionOutput<T, TOutputSchema>>;
 			},
 		};
 
+		Object.defineProperty(builder, STEPS, { value: steps });
 		return builder;
 	}
 
-	return {
-		auth: () => createBuilder([{ type: "auth" }]),
-		schema: (schema) => createBuilder([{ type: "schema", config: schema }]),
-		rateLimit: (rlConfig) => createBuilder([{ type: "rateLimit", config: rlConfig }]),
-		audit: (auditConfig) => createBuilder([{ type: "audit", config: auditConfig }]),
-		csrf: () => createBuilder([{ type: "csrf" }]),
-		action: (handler) => createBuilder().action(handler),
-	};
+	return Object.assign(createBuilder(), {
+		metrics,
+		on<E extends SecurityEventName>(event: E, listener: SecurityEventListener<E>) {
+			return events.on(event, listener);
+		},
+		invalidateTags(tags: string[]) {
+			return cacheStore.invalidateTags(tags);
+		},
+	});
 }
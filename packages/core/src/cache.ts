@@ -0,0 +1,124 @@
+import { now as currentTime } from "./overrides";
+import type { ActionResult, MiddlewareContext } from "./types";
+
+export interface CacheSetOptions {
+	ttlMs: number;
+	tags: string[];
+}
+
+export interface CacheStore {
+	/** Return the stored result, or undefined when missing or expired. */
+	get(key: string): Promise<ActionResult<unknown> | undefined>;
+	set(key: string, result: ActionResult<unknown>, options: CacheSetOptions): Promise<void>;
+	/** Remove every entry stored with at least one of the tags. */
+	invalidateTags(tags: string[]): Promise<void>;
+}
+
+export interface CacheConfig {
+	/** How long a result is reused, e.g. "30s". */
+	ttl: string;
+	/** Derive the cache key from the context. Defaults to the validated input. */
+	key?: (ctx: MiddlewareContext) => string;
+	/** Tags for `guard.invalidateTags()`, fixed or derived from the context. */
+	tags?: string[] | ((ctx: MiddlewareContext) => string[]);
+	/**
+	 * Share entries between all users. Only for data that does not depend on the user;
+	 * by default every entry is scoped to `ctx.user.id`.
+	 */
+	shared?: boolean;
+	/**
+	 * Namespace for this action's entries. Defaults to the action's `.name()`, else an id
+	 * unique to the action within this process. Required, unless the action is named,
+	 * with a store other than `MemoryCacheStore`.
+	 */
+	name?: string;
+}
+
+interface MemoryCacheEntry {
+	result: ActionResult<unknown>;
+	tags: string[];
+	expiresAt: number;
+}
+
+/** How often writes to the in-memory store remove expired entries. */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory cache store with tag invalidation.
+ *
+ * Suitable for single-process Node.js applications. For multi-process or
+ * distributed deployments, supply a shared store (e.g. Redis) instead.
+ */
+export class MemoryCacheStore implements CacheStore {
+	private entries = new Map<string, MemoryCacheEntry>();
+	private keysByTag = new Map<string, Set<string>>();
+	private nextSweepAt = 0;
+
+	async get(key: string): Promise<ActionResult<unknown> | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+
+		if (entry.expiresAt <= currentTime()) {
+			this.delete(key);
+			return undefined;
+		}
+
+		return entry.result;
+	}
+
+	async set(key: string, result: ActionResult<unknown>, options: CacheSetOptions): Promise<void> {
+		const now = currentTime();
+		this.sweep(now);
+		this.delete(key);
+		this.entries.set(key, { result, tags: options.tags, expiresAt: now + options.ttlMs });
+
+		for (const tag of options.tags) {
+			const keys = this.keysByTag.get(tag) ?? new Set();
+			keys.add(key);
+			this.keysByTag.set(tag, keys);
+		}
+	}
+
+	async invalidateTags(tags: string[]): Promise<void> {
+		for (const tag of tags) {
+			for (const key of this.keysByTag.get(tag) ?? []) {
+				this.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Drop expired entries, at most once per interval. Keys are built from inputs, so
+	 * waiting for a key to be read again would let entries pile up.
+	 */
+	private sweep(now: number): void {
+		if (now < this.nextSweepAt) {
+			return;
+		}
+
+		this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) {
+				this.delete(key);
+			}
+		}
+	}
+
+	private delete(key: string): void {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return;
+		}
+
+		this.entries.delete(key);
+		for (const tag of entry.tags) {
+			const keys = this.keysByTag.get(tag);
+			keys?.delete(key);
+			if (keys?.size === 0) {
+				this.keysByTag.delete(tag);
+			}
+		}
+	}
+}
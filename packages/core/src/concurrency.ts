@@ -0,0 +1,117 @@
+import type { MiddlewareContext } from "./types";
+
+export interface ConcurrencyConfig {
+	/** Maximum simultaneous executions per key. */
+	max: number;
+	/** Derive the key from the context. Defaults to user ID, then client IP. */
+	key?: (ctx: MiddlewareContext) => string;
+	/** Wait for a free slot up to this long instead of rejecting immediately, e.g. "10s". */
+	wait?: string;
+}
+
+/** Frees an acquired slot. Safe to call more than once. */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+	grant: (release: ReleaseSlot) => void;
+}
+
+/**
+ * In-memory per-key semaphore.
+ *
+ * Slots are counted per process. For multi-process deployments each process
+ * enforces its own limit.
+ */
+export class ConcurrencyLimiter {
+	private active = new Map<string, number>();
+	private waiters = new Map<string, Waiter[]>();
+
+	constructor(private readonly max: number) {
+		if (!Number.isInteger(max) || max < 1) {
+			throw new Error(`Concurrency max must be a positive integer, got ${max}.`);
+		}
+	}
+
+	/** Number of executions currently holding a slot for the key. */
+	activeCount(key: string): number {
+		return this.active.get(key) ?? 0;
+	}
+
+	/**
+	 * Take a slot for the key. Without `waitMs` this fails immediately when all slots
+	 * are taken; otherwise it waits in line until a slot frees up, the wait expires or
+	 * the signal aborts. Resolves to a release function, or null when no slot was granted.
+	 */
+	acquire(key: string, waitMs?: number, signal?: AbortSignal): Promise<ReleaseSlot | null> {
+		const active = this.activeCount(key);
+		if (active < this.max) {
+			this.active.set(key, active + 1);
+			return Promise.resolve(this.createRelease(key));
+		}
+
+		if (!waitMs || signal?.aborted) {
+			return Promise.resolve(null);
+		}
+
+		return new Promise((resolve) => {
+			const queue = this.waiters.get(key) ?? [];
+			const finish = (release: ReleaseSlot | null) => {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", abandon);
+				resolve(release);
+			};
+			const waiter: Waiter = { grant: finish };
+			const abandon = () => {
+				this.removeWaiter(key, waiter);
+				finish(null);
+			};
+			const timer = setTimeout(abandon, waitMs);
+
+			signal?.addEventListener("abort", abandon, { once: true });
+			queue.push(waiter);
+			this.waiters.set(key, queue);
+		});
+	}
+
+	private createRelease(key: string): ReleaseSlot {
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+
+			// Hand the slot straight to the next waiter so it cannot be taken in between
+			const next = this.waiters.get(key)?.shift();
+			if (next) {
+				if (this.waiters.get(key)?.length === 0) {
+					this.waiters.delete(key);
+				}
+				next.grant(this.createRelease(key));
+				return;
+			}
+
+			const remaining = this.activeCount(key) - 1;
+			if (remaining > 0) {
+				this.active.set(key, remaining);
+			} else {
+				this.active.delete(key);
+			}
+		};
+	}
+
+	private removeWaiter(key: string, waiter: Waiter): void {
+		const queue = this.waiters.get(key);
+		if (!queue) {
+			return;
+		}
+
+		const index = queue.indexOf(waiter);
+		if (index !== -1) {
+			queue.splice(index, 1);
+		}
+		if (queue.length === 0) {
+			this.waiters.delete(key);
+		}
+	}
+}
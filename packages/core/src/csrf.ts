@@ -5,7 +5,8 @@ export interface CsrfValidationConfig {
 	headerName?: string;
 }
 
-const DEFAULTS = {
+/** Cookie and header names used when the guard config sets none. */
+export const DEFAULTS = {
 	cookieName: "actionguard-csrf",
 	headerName: "x-actionguard-csrf",
 } as const satisfies Required<CsrfValidationConfig>;
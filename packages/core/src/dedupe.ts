@@ -0,0 +1,65 @@
+import type { ActionResult, MiddlewareContext } from "./types";
+
+export interface DedupeConfig {
+	/**
+	 * Derive the coalescing key from the context. Defaults to the user ID plus the
+	 * validated input, so only identical calls from the same user are shared. Calls of
+	 * different actions are never shared.
+	 */
+	key?: (ctx: MiddlewareContext) => string;
+}
+
+/** Recorded in `ctx.metadata.dedupe` once the shared execution settles. */
+export interface DedupeInfo {
+	/** Whether this call reused an execution started by another call. */
+	joined: boolean;
+	/** Number of calls that reused the execution, excluding the one that started it. */
+	hits: number;
+}
+
+interface InFlight {
+	promise: Promise<ActionResult<unknown>>;
+	hits: number;
+}
+
+/**
+ * Shares one execution between concurrent calls with the same key.
+ * Entries are removed as soon as the execution settles; nothing is cached.
+ */
+export class InFlightRegistry {
+	private entries = new Map<string, InFlight>();
+
+	/** Number of executions currently in flight. */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Join the execution in flight for the key, or start one with `run`.
+	 * Every caller receives the same result, or the same error.
+	 */
+	async run(
+		key: string,
+		run: () => Promise<ActionResult<unknown>>,
+	): Promise<{ result: ActionResult<unknown>; info: DedupeInfo }> {
+		let entry = this.entries.get(key);
+		const joined = entry !== undefined;
+
+		if (entry) {
+			entry.hits++;
+		} else {
+			const started: InFlight = { promise: run(), hits: 0 };
+			const remove = () => {
+				if (this.entries.get(key) === started) {
+					this.entries.delete(key);
+				}
+			};
+			started.promise.then(remove, remove);
+			this.entries.set(key, started);
+			entry = started;
+		}
+
+		const result = await entry.promise;
+		return { result, info: { joined, hits: entry.hits } };
+	}
+}
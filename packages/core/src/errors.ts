@@ -0,0 +1,50 @@
+export interface ActionErrorOptions {
+	/** Machine-readable code returned to the client. Default: "ACTION_ERROR" */
+	code?: string;
+	/** HTTP-style status describing the failure. Default: 400 */
+	status?: number;
+	/** Underlying error, kept server-side for logging. Never sent to the client. */
+	cause?: unknown;
+}
+
+/**
+ * An expected failure whose message is safe to show to the client.
+ *
+ * Throw it from a handler, middleware or context resolver to end the action with
+ * `{ success: false, error: message, code, status }`. Any other thrown value is
+ * treated as an internal error and replaced by a generic message.
+ *
+ * ```ts
+ * if (invoice.orgId !== ctx.user.orgId) {
+ *   throw new ActionError("Invoice not found", { code: "NOT_FOUND", status: 404 });
+ * }
+ * ```
+ */
+export class ActionError extends Error {
+	readonly code: string;
+	readonly status: number;
+
+	constructor(message: string, options: ActionErrorOptions = {}) {
+		super(message, { cause: options.cause });
+		this.name = "ActionError";
+		this.code = options.code ?? "ACTION_ERROR";
+		this.status = options.status ?? 400;
+	}
+}
+
+/**
+ * Type guard for `ActionError`. Also matches errors from another copy of the
+ * package (e.g. duplicated in a bundle) by checking the name and shape.
+ */
+export function isActionError(error: unknown): error is ActionError {
+	if (error instanceof ActionError) {
+		return true;
+	}
+
+	return (
+		error instanceof Error &&
+		error.name === "ActionError" &&
+		typeof (error as ActionError).code === "string" &&
+		typeof (error as ActionError).status === "number"
+	);
+}
@@ -0,0 +1,96 @@
+import type {
+	ActionFailure,
+	CsrfConfig,
+	MiddlewareContext,
+	RateLimitConfig,
+	RejectingStep,
+} from "./types";
+
+/** Fields carried by every security event. */
+export interface SecurityEventInfo {
+	/** `.name()` of the action, else its audit action, else "anonymous". */
+	action: string;
+	/** Audit resource, when the action has an `.audit()` step. */
+	resource?: string;
+	/** ID of the resolved user, or null before auth and for anonymous calls. */
+	userId: string | null;
+	/** Client IP from `x-forwarded-for` or `x-real-ip`, or null. */
+	ip: string | null;
+	/** Key identifying the caller: the rate-limit key, else user ID, else IP. */
+	key: string;
+	ctx: MiddlewareContext;
+}
+
+/** A call rejected by a pipeline step. */
+export interface RejectionEvent<TConfig = unknown> extends SecurityEventInfo {
+	step: RejectingStep;
+	/** Configuration of the rejecting step. */
+	config: TConfig;
+	result: ActionFailure;
+}
+
+export interface SecurityEvents {
+	"auth.failed": RejectionEvent;
+	"rateLimit.exceeded": RejectionEvent<RateLimitConfig>;
+	"csrf.failed": RejectionEvent<CsrfConfig | undefined>;
+	"validation.failed": RejectionEvent;
+	/** An unexpected error, reported to the client as `INTERNAL_ERROR`. */
+	"action.error": SecurityEventInfo & { error: unknown; correlationId: string };
+	"action.success": SecurityEventInfo & { data: unknown };
+}
+
+export type SecurityEventName = keyof SecurityEvents;
+
+export type SecurityEventListener<E extends SecurityEventName> = (
+	event: SecurityEvents[E],
+) => void | Promise<void>;
+
+/** Events emitted for rejections, by result code. */
+export const REJECTION_EVENTS: Readonly<Record<string, SecurityEventName>> = {
+	AUTH_FAILED: "auth.failed",
+	RATE_LIMITED: "rateLimit.exceeded",
+	CSRF_FAILED: "csrf.failed",
+	VALIDATION_ERROR: "validation.failed",
+};
+
+/**
+ * Typed event emitter behind `guard.on()`.
+ *
+ * Listeners run after the step that emitted the event and are not awaited, so a
+ * slow or failing listener never delays or changes the action result.
+ */
+export class SecurityEventBus {
+	private listeners = new Map<SecurityEventName, Set<SecurityEventListener<never>>>();
+
+	/** Subscribe to an event. Returns a function that unsubscribes. */
+	on<E extends SecurityEventName>(event: E, listener: SecurityEventListener<E>): () => void {
+		const listeners = this.listeners.get(event) ?? new Set();
+		listeners.add(listener);
+		this.listeners.set(event, listeners);
+
+		return () => {
+			listeners.delete(listener);
+		};
+	}
+
+	/** Whether anything listens to the event, to skip building unused payloads. */
+	has(event: SecurityEventName): boolean {
+		return (this.listeners.get(event)?.size ?? 0) > 0;
+	}
+
+	emit<E extends SecurityEventName>(event: E, payload: SecurityEvents[E]): void {
+		for (const listener of this.listeners.get(event) ?? []) {
+			try {
+				Promise.resolve((listener as SecurityEventListener<E>)(payload)).catch((error) =>
+					reportListenerError(event, error),
+				);
+			} catch (error) {
+				reportListenerError(event, error);
+			}
+		}
+	}
+}
+
+function reportListenerError(event: SecurityEventName, error: unknown): void {
+	console.error(`[actionguard] "${event}" listener failed`, error);
+}
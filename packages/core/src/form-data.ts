@@ -0,0 +1,315 @@
+import {
+	arrayElement,
+	objectShape,
+	recordValue,
+	schemaKind,
+	tupleItems,
+	unwrapSchema,
+} from "./schema-inspect";
+
+/** Keys that could reach an object prototype if used as property names. */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const TRUE_VALUES = new Set(["true", "on", "1", "yes"]);
+const FALSE_VALUES = new Set(["false", "off", "0", "no"]);
+
+type FormValue = string | File;
+
+interface Leaf {
+	leaf: true;
+	values: FormValue[];
+}
+
+interface Branch {
+	leaf: false;
+	array: boolean;
+	nextIndex: number;
+	children: Map<string, Node>;
+}
+
+type Node = Leaf | Branch;
+
+/** Segment produced by an empty bracket pair, e.g. `tags[]`. */
+const APPEND = Symbol("append");
+
+type Segment = string | number | typeof APPEND;
+
+/**
+ * Check whether a value is a `FormData` instance.
+ */
+export function isFormData(value: unknown): value is FormData {
+	return typeof FormData !== "undefined" && value instanceof FormData;
+}
+
+/**
+ * Split a field name into path segments.
+ * `a.b[0].c` -> ["a", "b", 0, "c"], `tags[]` -> ["tags", APPEND].
+ * Returns null for names that cannot be mapped safely.
+ */
+function parseFieldName(name: string): Segment[] | null {
+	const segments: Segment[] = [];
+	const pattern = /([^.[\]]+)|\[(\d*)\]/g;
+	let consumed = 0;
+
+	for (const match of name.matchAll(pattern)) {
+		const separator = name.slice(consumed, match.index);
+		if (separator !== "" && separator !== ".") {
+			return null;
+		}
+		consumed = match.index + match[0].length;
+
+		if (match[1] !== undefined) {
+			if (UNSAFE_KEYS.has(match[1])) {
+				return null;
+			}
+			segments.push(match[1]);
+		} else if (match[2] === "") {
+			segments.push(APPEND);
+		} else {
+			segments.push(Number.parseInt(match[2], 10));
+		}
+	}
+
+	if (consumed !== name.length || segments.length === 0) {
+		return null;
+	}
+
+	return segments;
+}
+
+function createBranch(array: boolean): Branch {
+	return { leaf: false, array, nextIndex: 0, children: new Map() };
+}
+
+function childKey(branch: Branch, segment: Segment): string {
+	if (segment === APPEND) {
+		return String(branch.nextIndex++);
+	}
+
+	if (typeof segment === "number") {
+		branch.nextIndex = Math.max(branch.nextIndex, segment + 1);
+	}
+
+	return String(segment);
+}
+
+function setLeaf(branch: Branch, key: string, value: FormValue): void {
+	const existing = branch.children.get(key);
+	if (!existing) {
+		branch.children.set(key, { leaf: true, values: [value] });
+	} else if (existing.leaf) {
+		// Repeated field names collect into an array
+		existing.values.push(value);
+	}
+	// A value cannot replace a nested structure; the conflicting entry is dropped
+}
+
+function insert(root: Branch, segments: Segment[], value: FormValue): void {
+	let branch = root;
+
+	for (let i = 0; i < segments.length; i++) {
+		if (branch.array && typeof segments[i] === "string") {
+			// `a[0]` and `a.b` disagree on the shape of `a`; keep the first
+			return;
+		}
+
+		const key = childKey(branch, segments[i]);
+		const isLast = i === segments.length - 1;
+		const existing = branch.children.get(key);
+
+		if (isLast) {
+			setLeaf(branch, key, value);
+			return;
+		}
+
+		if (!existing) {
+			const next = createBranch(typeof segments[i + 1] !== "string");
+			branch.children.set(key, next);
+			branch = next;
+		} else if (existing.leaf) {
+			return;
+		} else {
+			branch = existing;
+		}
+	}
+}
+
+function finalize(node: Node): unknown {
+	if (node.leaf) {
+		return node.values.length === 1 ? node.values[0] : node.values;
+	}
+
+	if (node.array) {
+		// Indexes only define order, so sparse or huge indexes cannot create large arrays
+		return [...node.children.entries()]
+			.sort(([a], [b]) => Number(a) - Number(b))
+			.map(([, child]) => finalize(child));
+	}
+
+	return Object.fromEntries(
+		[...node.children.entries()].map(([key, child]) => [key, finalize(child)]),
+	);
+}
+
+function coerceNumber(value: unknown): unknown {
+	if (typeof value !== "string") {
+		return value;
+	}
+	if (value.trim() === "") {
+		return undefined;
+	}
+	const number = Number(value);
+	return Number.isNaN(number) ? value : number;
+}
+
+function coerceBigInt(value: unknown): unknown {
+	if (typeof value !== "string" || value.trim() === "") {
+		return value === "" ? undefined : value;
+	}
+	try {
+		return BigInt(value);
+	} catch {
+		return value;
+	}
+}
+
+function coerceBoolean(value: unknown): unknown {
+	if (typeof value !== "string") {
+		return value;
+	}
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "") {
+		return undefined;
+	}
+	if (TRUE_VALUES.has(normalized)) {
+		return true;
+	}
+	if (FALSE_VALUES.has(normalized)) {
+		return false;
+	}
+	return value;
+}
+
+function coerceDate(value: unknown): unknown {
+	if (typeof value !== "string") {
+		return value;
+	}
+	if (value.trim() === "") {
+		return undefined;
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? value : date;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		!Array.isArray(value) &&
+		!(typeof Blob !== "undefined" && value instanceof Blob)
+	);
+}
+
+function coerceArray(value: unknown, schema: unknown): unknown {
+	if (value === undefined) {
+		return value;
+	}
+	const items = Array.isArray(value) ? value : [value];
+	const element = arrayElement(schema);
+	return items.map((item) => coerceToSchema(item, element));
+}
+
+function coerceTuple(value: unknown, schema: unknown): unknown {
+	const itemSchemas = tupleItems(schema) ?? [];
+	return Array.isArray(value)
+		? value.map((item, i) => coerceToSchema(item, itemSchemas[i]))
+		: value;
+}
+
+function coerceObject(value: unknown, schema: unknown): unknown {
+	const shape = objectShape(schema);
+	if (!shape || !isPlainObject(value)) {
+		return value;
+	}
+	const result: Record<string, unknown> = { ...value };
+	for (const key of Object.keys(shape)) {
+		if (Object.hasOwn(value, key)) {
+			result[key] = coerceToSchema(value[key], shape[key]);
+		}
+	}
+	return result;
+}
+
+function coerceRecord(value: unknown, schema: unknown): unknown {
+	if (!isPlainObject(value)) {
+		return value;
+	}
+	const valueSchema = recordValue(schema);
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [key, coerceToSchema(item, valueSchema)]),
+	);
+}
+
+/**
+ * Coerce decoded form values toward the types a schema expects.
+ * Values that cannot be coerced are left as-is so the schema reports them.
+ */
+export function coerceToSchema(value: unknown, schema: unknown): unknown {
+	const { schema: inner } = unwrapSchema(schema);
+
+	switch (schemaKind(inner)) {
+		case "number":
+			return coerceNumber(value);
+		case "bigint":
+			return coerceBigInt(value);
+		case "boolean":
+			return coerceBoolean(value);
+		case "date":
+			return coerceDate(value);
+		case "array":
+			return coerceArray(value, inner);
+		case "tuple":
+			return coerceTuple(value, inner);
+		case "object":
+			return coerceObject(value, inner);
+		case "record":
+			return coerceRecord(value, inner);
+		default:
+			return value;
+	}
+}
+
+/**
+ * Decode `FormData` into a nested object.
+ *
+ * - `a.b[0].c` style names build nested objects and arrays
+ * - repeated names (checkbox groups, multi-selects) and `name[]` collect into arrays
+ * - `File` entries are kept as-is; empty file inputs are dropped
+ * - Next.js internal fields (`$ACTION_*`) are ignored
+ *
+ * When a schema is given, values are coerced toward it: numeric, boolean and date
+ * strings are converted, and single values become arrays where an array is expected.
+ */
+export function decodeFormData(formData: FormData, schema?: unknown): Record<string, unknown> {
+	const root = createBranch(false);
+
+	for (const [name, value] of formData.entries()) {
+		if (name.startsWith("$ACTION_")) {
+			continue;
+		}
+
+		if (typeof value !== "string" && value.size === 0 && value.name === "") {
+			continue;
+		}
+
+		const segments = parseFieldName(name);
+		if (segments) {
+			insert(root, segments, value);
+		}
+	}
+
+	const decoded = finalize(root) as Record<string, unknown>;
+	return schema === undefined
+		? decoded
+		: (coerceToSchema(decoded, schema) as Record<string, unknown>);
+}
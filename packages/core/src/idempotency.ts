@@ -0,0 +1,115 @@
+import { now as currentTime } from "./overrides";
+import type { ActionResult, MiddlewareContext } from "./types";
+
+export type IdempotencyRecord =
+	| { status: "pending"; expiresAt: number }
+	| { status: "completed"; result: ActionResult<unknown>; expiresAt: number };
+
+export interface IdempotencyStore {
+	/**
+	 * Claim a key for a new call. Must be atomic: returns null when the key was free
+	 * and is now pending, or the existing record when the key is taken.
+	 */
+	begin(key: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+	/** Store the result of a claimed key for repeats within the TTL. */
+	complete(key: string, result: ActionResult<unknown>, ttlMs: number): Promise<void>;
+	/** Free a claimed key without storing a result, so the call can be retried. */
+	release(key: string): Promise<void>;
+}
+
+export interface IdempotencyConfig {
+	/** Header carrying the key. Default: "idempotency-key" */
+	header?: string;
+	/** Input field carrying the key instead of a header, e.g. "idempotencyKey". */
+	field?: string;
+	/** How long the first result is replayed, e.g. "24h". Default: guard setting or "24h" */
+	ttl?: string;
+	/**
+	 * Backing store. Default: guard setting or an in-memory store. Any other store
+	 * requires a `.name()` on the action.
+	 */
+	store?: IdempotencyStore;
+}
+
+/** How often writes to the in-memory store remove expired records. */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory idempotency store.
+ *
+ * Suitable for single-process Node.js applications. For multi-process or
+ * distributed deployments, supply a shared store (e.g. Redis `SET NX`) instead.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+	private records = new Map<string, IdempotencyRecord>();
+	private nextSweepAt = 0;
+
+	async begin(key: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+		const now = currentTime();
+		const existing = this.records.get(key);
+
+		if (existing && existing.expiresAt > now) {
+			return existing;
+		}
+
+		this.sweep(now);
+		this.records.set(key, { status: "pending", expiresAt: now + ttlMs });
+		return null;
+	}
+
+	async complete(key: string, result: ActionResult<unknown>, ttlMs: number): Promise<void> {
+		this.records.set(key, { status: "completed", result, expiresAt: currentTime() + ttlMs });
+	}
+
+	async release(key: string): Promise<void> {
+		this.records.delete(key);
+	}
+
+	/**
+	 * Drop expired records, at most once per interval. Keys come from clients and are
+	 * rarely repeated, so waiting for a key to return would let records pile up.
+	 */
+	private sweep(now: number): void {
+		if (now < this.nextSweepAt) {
+			return;
+		}
+
+		this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+		for (const [key, record] of this.records) {
+			if (record.expiresAt <= now) {
+				this.records.delete(key);
+			}
+		}
+	}
+}
+
+/** Longest accepted key, to keep store keys bounded. */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Read the idempotency key from the configured input field or header.
+ * Returns undefined when the call carries no usable key.
+ */
+export function readIdempotencyKey(
+	ctx: MiddlewareContext,
+	config: Pick<IdempotencyConfig, "header" | "field">,
+): string | undefined {
+	let value: unknown;
+
+	if (config.field) {
+		const input = ctx.input;
+		value =
+			input !== null && typeof input === "object" && Object.hasOwn(input, config.field)
+				? (input as Record<string, unknown>)[config.field]
+				: undefined;
+	} else {
+		value = ctx.headers.get(config.header ?? "idempotency-key");
+	}
+
+	if (typeof value !== "string") {
+		return undefined;
+	}
+
+	const key = value.trim();
+	return key && key.length <= MAX_KEY_LENGTH ? key : undefined;
+}
@@ -8,6 +8,14 @@ export { supabaseAuth } from "./auth/supabase";
 // Builder
 export { createActionGuard } from "./builder";
 
+// Caching
+export type { CacheConfig, CacheSetOptions, CacheStore } from "./cache";
+export { MemoryCacheStore } from "./cache";
+
+// Concurrency
+export type { ConcurrencyConfig, ReleaseSlot } from "./concurrency";
+export { ConcurrencyLimiter } from "./concurrency";
+
 // CSRF
 export type { CsrfValidationConfig } from "./csrf";
 export {
@@ -18,24 +26,104 @@ export {
 	validateCsrf,
 } from "./csrf";
 
+// Dedupe
+export type { DedupeConfig, DedupeInfo } from "./dedupe";
+export { InFlightRegistry } from "./dedupe";
+
+// Errors
+export type { ActionErrorOptions } from "./errors";
+export { ActionError, isActionError } from "./errors";
+
+// Events
+export type {
+	RejectionEvent,
+	SecurityEventInfo,
+	SecurityEventListener,
+	SecurityEventName,
+	SecurityEvents,
+} from "./events";
+export { REJECTION_EVENTS, SecurityEventBus } from "./events";
+
+// Form data
+export { coerceToSchema, decodeFormData, isFormData } from "./form-data";
+
+// Idempotency
+export type { IdempotencyConfig, IdempotencyRecord, IdempotencyStore } from "./idempotency";
+export { MemoryIdempotencyStore, readIdempotencyKey } from "./idempotency";
+
+// Metrics
+export type {
+	CounterSample,
+	HistogramSample,
+	MetricFamily,
+	MetricLabels,
+	MetricsOptions,
+} from "./metrics";
+export {
+	DEFAULT_BUCKETS,
+	MetricsRegistry,
+	PROMETHEUS_CONTENT_TYPE,
+	renderPrometheus,
+} from "./metrics";
+
+// Policies
+export type { Policy, PolicyArgs, PolicyCheck, PolicyDecision, PolicyLike } from "./policy";
+export { and, definePolicy, evaluatePolicy, not, or, policyName } from "./policy";
+
 // Rate limiting
 export type { RateLimiterOptions, RateLimitResult, RateLimitStore } from "./rate-limit";
 export { createRateLimiter, MemoryRateLimitStore, parseWindow } from "./rate-limit";
 
+// RBAC
+export type { RbacConfig, RoleExtractor, RoleHierarchy } from "./rbac";
+export { DEFAULT_ROLE_HIERARCHY, defaultRoleExtractor, expandRoles, hasAnyRole } from "./rbac";
+
+// Request context
+export type { HeadersSource, RequestHeadersInit } from "./request";
+export { nextHeaders } from "./request";
+
 // Sanitization
 export type { SanitizeConfig } from "./sanitize";
 export { escapeHtml, sanitizeInput, sanitizeValue } from "./sanitize";
 
+// Schema inspection
+export type { SchemaShape } from "./schema-inspect";
+export { describeSchema } from "./schema-inspect";
+
 // Types
 export type {
 	ActionBuilder,
+	ActionContext,
+	ActionFailure,
 	ActionGuardConfig,
 	ActionGuardInstance,
+	ActionHandlerParams,
+	ActionManifest,
+	ActionOutput,
 	ActionResult,
 	AuditConfig,
+	AuditEntry,
 	AuthProvider,
+	BlockedInfo,
+	ContextResolver,
 	CsrfConfig,
+	EnforcedSteps,
+	ErrorInfo,
+	GuardedAction,
+	HandlerOutput,
+	HookInfo,
+	InferBindArgs,
+	LifecycleHooks,
 	Middleware,
 	MiddlewareContext,
+	PipelineStepType,
 	RateLimitConfig,
+	RejectingStep,
+	SkippableStep,
+	SkippedStep,
+	StepDescription,
 } from "./types";
+
+// Validation
+export type { ValidationErrorFormatter, ValidationErrors } from "./validation";
+export { formatIssuePath, formatValidationErrors } from "./validation";
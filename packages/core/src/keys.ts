@@ -0,0 +1,100 @@
+import { createHash } from "node:crypto";
+import type { MiddlewareContext } from "./types";
+
+/**
+ * ID of a resolved user: its `id`, or the value itself for primitive users.
+ * Returns null without a user and for a missing or empty `id`.
+ */
+export function userId(user: unknown): string | null {
+	if (user === null || user === undefined) {
+		return null;
+	}
+
+	const id = typeof user === "object" ? (user as { id?: unknown }).id : user;
+	return id === null || id === undefined || id === "" ? null : String(id);
+}
+
+/**
+ * Scope a key to the current user so stored results are never shared across users.
+ * Users are identified by `scope`, else by `id`, else by a hash of the whole user;
+ * calls without a user share the anonymous scope.
+ */
+export function userScope<TUser>(
+	user: TUser | null | undefined,
+	scope?: (user: TUser) => string,
+): string {
+	if (user === null || user === undefined) {
+		return "anonymous";
+	}
+	if (scope) {
+		return `user:${scope(user)}`;
+	}
+
+	const id = userId(user);
+	if (id !== null) {
+		return `user:${id}`;
+	}
+	// Hashed so claims such as emails or tokens stay out of store keys
+	return `user:#${createHash("sha256").update(stableStringify(user)).digest("hex")}`;
+}
+
+/**
+ * Client IP from the first `x-forwarded-for` entry or `x-real-ip`, or null.
+ */
+export function clientIp(headers: Headers): string | null {
+	const forwarded = headers.get("x-forwarded-for");
+	if (forwarded) {
+		return forwarded.split(",")[0].trim();
+	}
+
+	return headers.get("x-real-ip")?.trim() || null;
+}
+
+/**
+ * Resolve the key that identifies the caller for rate and concurrency limits.
+ * Priority: per-step key fn > user ID > IP from headers > "anonymous".
+ * Users without an `id` are keyed by IP.
+ */
+export function resolveRequestKey(
+	ctx: MiddlewareContext,
+	keyFn?: (ctx: MiddlewareContext) => string,
+): string {
+	if (keyFn) {
+		return keyFn(ctx);
+	}
+
+	const id = userId(ctx.user);
+	if (id !== null) {
+		return `user:${id}`;
+	}
+
+	const ip = clientIp(ctx.headers);
+	return ip ? `ip:${ip}` : "anonymous";
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal inputs produce equal keys
+ * regardless of property order. BigInts are tagged to stay distinct from numbers.
+ */
+export function stableStringify(value: unknown): string {
+	const serialized = JSON.stringify(value, (_key, current: unknown) => {
+		if (typeof current === "bigint") {
+			return `${current}n`;
+		}
+		if (isPlainObject(current)) {
+			return Object.fromEntries(
+				Object.entries(current).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+			);
+		}
+		return current;
+	});
+	return serialized ?? "undefined";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== "object") {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
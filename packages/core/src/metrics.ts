@@ -0,0 +1,196 @@
+/** Labels identifying an action in metrics. */
+export interface MetricLabels {
+	/** `.name()` of the action, else its audit action, else "anonymous". */
+	action: string;
+	/** Audit resource, when the action has an `.audit()` step. */
+	resource?: string;
+}
+
+export interface MetricsOptions {
+	/** Upper bounds of the latency histogram buckets in seconds. */
+	buckets?: number[];
+}
+
+export interface CounterSample {
+	labels: Record<string, string>;
+	value: number;
+}
+
+export interface HistogramSample {
+	labels: Record<string, string>;
+	/** Cumulative count of observations at or below each bound. */
+	buckets: Array<{ le: number; count: number }>;
+	sum: number;
+	count: number;
+}
+
+export type MetricFamily =
+	| { name: string; help: string; type: "counter"; samples: CounterSample[] }
+	| { name: string; help: string; type: "histogram"; samples: HistogramSample[] };
+
+/** Prometheus client defaults, suited to request latencies. */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function seriesKey(labels: Record<string, string>): string {
+	return JSON.stringify(Object.entries(labels));
+}
+
+class Counter {
+	private series = new Map<string, CounterSample>();
+
+	inc(labels: Record<string, string>): void {
+		const key = seriesKey(labels);
+		const sample = this.series.get(key) ?? { labels, value: 0 };
+		sample.value++;
+		this.series.set(key, sample);
+	}
+
+	samples(): CounterSample[] {
+		return [...this.series.values()].map((sample) => ({ ...sample }));
+	}
+}
+
+class Histogram {
+	private series = new Map<string, HistogramSample>();
+
+	constructor(private readonly bounds: number[]) {}
+
+	observe(labels: Record<string, string>, value: number): void {
+		const key = seriesKey(labels);
+		let sample = this.series.get(key);
+		if (!sample) {
+			sample = {
+				labels,
+				buckets: this.bounds.map((le) => ({ le, count: 0 })),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, sample);
+		}
+
+		for (const bucket of sample.buckets) {
+			if (value <= bucket.le) {
+				bucket.count++;
+			}
+		}
+		sample.sum += value;
+		sample.count++;
+	}
+
+	samples(): HistogramSample[] {
+		return [...this.series.values()].map((sample) => ({
+			...sample,
+			buckets: sample.buckets.map((bucket) => ({ ...bucket })),
+		}));
+	}
+}
+
+function actionLabels({ action, resource }: MetricLabels): Record<string, string> {
+	return resource === undefined ? { action } : { action, resource };
+}
+
+/**
+ * In-memory metrics for guarded actions: calls by outcome code, call latency
+ * and step latency. Every guard records into `guard.metrics`; pass one registry
+ * to several guards through the `metrics` option to collect them together.
+ *
+ * Counts are per process. Render them with `renderPrometheus()`.
+ */
+export class MetricsRegistry {
+	private invocations = new Counter();
+	private invocationDuration: Histogram;
+	private stepDuration: Histogram;
+
+	constructor(options: MetricsOptions = {}) {
+		const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+		this.invocationDuration = new Histogram(bounds);
+		this.stepDuration = new Histogram(bounds);
+	}
+
+	/** Count a finished call. `code` is "OK" for successes. */
+	recordInvocation(labels: MetricLabels, code: string, seconds: number): void {
+		this.invocations.inc({ ...actionLabels(labels), code });
+		this.invocationDuration.observe(actionLabels(labels), seconds);
+	}
+
+	/** Record how long a step, or the handler, took. */
+	recordStep(labels: MetricLabels, step: string, seconds: number): void {
+		this.stepDuration.observe({ ...actionLabels(labels), step }, seconds);
+	}
+
+	/** Snapshot of every metric, e.g. for a custom exporter. */
+	collect(): MetricFamily[] {
+		return [
+			{
+				name: "actionguard_invocations_total",
+				help: "Action calls by outcome code.",
+				type: "counter",
+				samples: this.invocations.samples(),
+			},
+			{
+				name: "actionguard_invocation_duration_seconds",
+				help: "Action call latency in seconds.",
+				type: "histogram",
+				samples: this.invocationDuration.samples(),
+			},
+			{
+				name: "actionguard_step_duration_seconds",
+				help: "Pipeline step latency in seconds. Wrapping steps include the steps after them.",
+				type: "histogram",
+				samples: this.stepDuration.samples(),
+			},
+		];
+	}
+}
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+	);
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function renderFamily(family: MetricFamily): string[] {
+	const lines = [`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`];
+
+	if (family.type === "counter") {
+		for (const sample of family.samples) {
+			lines.push(`${family.name}${formatLabels(sample.labels)} ${sample.value}`);
+		}
+		return lines;
+	}
+
+	for (const sample of family.samples) {
+		for (const bucket of sample.buckets) {
+			const labels = formatLabels({ ...sample.labels, le: String(bucket.le) });
+			lines.push(`${family.name}_bucket${labels} ${bucket.count}`);
+		}
+		const infLabels = formatLabels({ ...sample.labels, le: "+Inf" });
+		lines.push(`${family.name}_bucket${infLabels} ${sample.count}`);
+		lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${sample.sum}`);
+		lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+	}
+	return lines;
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format.
+ *
+ * ```ts
+ * // app/metrics/route.ts
+ * export function GET() {
+ *   return new Response(renderPrometheus(guard.metrics), {
+ *     headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+ *   });
+ * }
+ * ```
+ */
+export function renderPrometheus(registry: MetricsRegistry): string {
+	return `${registry.collect().flatMap(renderFamily).join("\n")}\n`;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AuditEntry } from "./types";
+
+/**
+ * Per-call overrides installed by `actionguard/testing`. Outside of a test
+ * scope every lookup falls through to the real request, provider and clock.
+ */
+export interface Overrides {
+	/** Replaces the configured headers source. */
+	headers?: Headers;
+	/** Replaces the auth provider's result; `{ value: null }` simulates a signed-out caller. */
+	user?: { value: unknown };
+	/** Replaces `Date.now()` in the built-in memory stores and audit timestamps. */
+	now?: () => number;
+	/** Receives audit entries instead of the console. */
+	audit?: (entry: AuditEntry) => void;
+}
+
+const storage = new AsyncLocalStorage<Overrides>();
+
+/**
+ * Run with overrides applied to every action called inside, including async work.
+ */
+export function runWithOverrides<T>(overrides: Overrides, run: () => T): T {
+	return storage.run(overrides, run);
+}
+
+/** Overrides of the current call, if any. */
+export function getOverrides(): Overrides | undefined {
+	return storage.getStore();
+}
+
+/** Current time in epoch ms, from the test clock when one is installed. */
+export function now(): number {
+	return storage.getStore()?.now?.() ?? Date.now();
+}
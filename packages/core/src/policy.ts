@@ -0,0 +1,133 @@
+/** Outcome of a policy check, with the name of the policy that decided it. */
+export interface PolicyDecision {
+	allowed: boolean;
+	policy: string;
+}
+
+/** A policy check: allow or deny, optionally after loading data. */
+export type PolicyCheck<TArgs> = (args: TArgs) => boolean | Promise<boolean>;
+
+/** A named policy. Build one with `definePolicy()`, `and()`, `or()` or `not()`. */
+export interface Policy<TArgs> {
+	readonly name: string;
+	evaluate: (args: TArgs) => Promise<PolicyDecision>;
+}
+
+/** A policy or a plain check function, named after the function. */
+export type PolicyLike<TArgs> = Policy<TArgs> | PolicyCheck<TArgs>;
+
+/**
+ * Arguments passed to a policy by `.authorize()`: the validated input, the user
+ * and the full action context.
+ */
+export interface PolicyArgs<TInput = unknown, TUser = unknown, TCtx = unknown> {
+	input: TInput;
+	user: TUser;
+	ctx: TCtx;
+}
+
+/**
+ * Create a named policy. The name is recorded in `ctx.metadata.authorization`
+ * and in the audit entry when the policy decides a call.
+ *
+ * ```ts
+ * type InvoiceArgs = PolicyArgs<{ invoiceId: string }, User>;
+ *
+ * const sameOrg = definePolicy("sameOrg", async ({ input, user }: InvoiceArgs) => {
+ *   const invoice = await db.invoice.find(input.invoiceId);
+ *   return invoice?.orgId === user.orgId;
+ * });
+ * ```
+ */
+export function definePolicy<TArgs>(name: string, check: PolicyCheck<TArgs>): Policy<TArgs> {
+	return {
+		name,
+		async evaluate(args) {
+			return { allowed: (await check(args)) === true, policy: name };
+		},
+	};
+}
+
+/**
+ * Name of a policy, or of a plain check function.
+ */
+export function policyName<TArgs>(policy: PolicyLike<TArgs>): string {
+	return typeof policy === "function" ? policy.name || "anonymous" : policy.name;
+}
+
+function toPolicy<TArgs>(policy: PolicyLike<TArgs>): Policy<TArgs> {
+	return typeof policy === "function" ? definePolicy(policyName(policy), policy) : policy;
+}
+
+function compositeName(operator: string, policies: Policy<unknown>[]): string {
+	return `${operator}(${policies.map((policy) => policy.name).join(", ")})`;
+}
+
+/**
+ * Allow when every policy allows. Policies run in order and stop at the first
+ * denial, which decides the call.
+ */
+export function and<TArgs>(...policies: PolicyLike<TArgs>[]): Policy<TArgs> {
+	const resolved = policies.map(toPolicy);
+	const name = compositeName("and", resolved as Policy<unknown>[]);
+
+	return {
+		name,
+		async evaluate(args) {
+			for (const policy of resolved) {
+				const decision = await policy.evaluate(args);
+				if (!decision.allowed) {
+					return decision;
+				}
+			}
+			return { allowed: true, policy: name };
+		},
+	};
+}
+
+/**
+ * Allow when any policy allows. Policies run in order and stop at the first
+ * approval, which decides the call.
+ */
+export function or<TArgs>(...policies: PolicyLike<TArgs>[]): Policy<TArgs> {
+	const resolved = policies.map(toPolicy);
+	const name = compositeName("or", resolved as Policy<unknown>[]);
+
+	return {
+		name,
+		async evaluate(args) {
+			for (const policy of resolved) {
+				const decision = await policy.evaluate(args);
+				if (decision.allowed) {
+					return decision;
+				}
+			}
+			return { allowed: false, policy: name };
+		},
+	};
+}
+
+/**
+ * Invert a policy.
+ */
+export function not<TArgs>(policy: PolicyLike<TArgs>): Policy<TArgs> {
+	const resolved = toPolicy(policy);
+
+	return {
+		name: `not(${resolved.name})`,
+		async evaluate(args) {
+			const decision = await resolved.evaluate(args);
+			return { allowed: !decision.allowed, policy: `not(${decision.policy})` };
+		},
+	};
+}
+
+/**
+ * Evaluate a policy or a plain check function.
+ */
+export function evaluatePolicy<TArgs>(
+	policy: PolicyLike<TArgs>,
+	args: TArgs,
+): Promise<PolicyDecision> {
+	return toPolicy(policy).evaluate(args);
+}
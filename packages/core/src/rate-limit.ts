@@ -1,3 +1,5 @@
+import { now as currentTime } from "./overrides";
+
 export interface RateLimitResult {
 	allowed: boolean;
 	remaining: number;
@@ -74,7 +76,7 @@ export class MemoryRateLimitStore implements RateLimitStore {
 	private windows = new Map<string, number[]>();
 
 	async check(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult> {
-		const now = Date.now();
+		const now = currentTime();
 		const windowStart = now - windowMs;
 
 		// Retrieve existing timestamps or start fresh.
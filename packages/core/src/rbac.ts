@@ -0,0 +1,105 @@
+/** Roles read from a user: a single role, a list, or nothing. */
+type ExtractedRoles = string | readonly string[] | null | undefined;
+
+/**
+ * Reads the roles granted to a user.
+ */
+export type RoleExtractor<TUser = unknown> = (
+	user: TUser,
+) => ExtractedRoles | Promise<ExtractedRoles>;
+
+/**
+ * Roles each role inherits, e.g. `{ owner: ["admin"], admin: ["member"] }`.
+ * Inheritance is transitive: an owner passes `.roles("member")`.
+ */
+export type RoleHierarchy = Record<string, readonly string[]>;
+
+export interface RbacConfig<TUser = unknown> {
+	/** Read roles from the resolved user. Defaults to `defaultRoleExtractor`. */
+	getRoles?: RoleExtractor<TUser>;
+	/** Role inheritance. Defaults to `owner > admin > member`. */
+	hierarchy?: RoleHierarchy;
+}
+
+export const DEFAULT_ROLE_HIERARCHY: RoleHierarchy = {
+	owner: ["admin"],
+	admin: ["member"],
+};
+
+function toRoleList(value: unknown): string[] {
+	if (typeof value === "string") {
+		return value ? [value] : [];
+	}
+	if (Array.isArray(value)) {
+		return value.filter((role): role is string => typeof role === "string" && role !== "");
+	}
+	return [];
+}
+
+/**
+ * Default role extractor for the bundled auth providers.
+ *
+ * - `role` / `roles` claims on the user (`SupabaseUser.role`, NextAuth custom claims)
+ * - `app_metadata.role` / `app_metadata.roles` (Supabase custom claims)
+ */
+export function defaultRoleExtractor(user: unknown): string[] {
+	if (user === null || typeof user !== "object") {
+		return [];
+	}
+
+	const claims = user as { role?: unknown; roles?: unknown; app_metadata?: unknown };
+	const appMetadata =
+		claims.app_metadata && typeof claims.app_metadata === "object"
+			? (claims.app_metadata as { role?: unknown; roles?: unknown })
+			: {};
+
+	return [
+		...new Set([
+			...toRoleList(claims.role),
+			...toRoleList(claims.roles),
+			...toRoleList(appMetadata.role),
+			...toRoleList(appMetadata.roles),
+		]),
+	];
+}
+
+/**
+ * Expand roles with everything they inherit through the hierarchy.
+ */
+export function expandRoles(
+	roles: Iterable<string>,
+	hierarchy: RoleHierarchy = DEFAULT_ROLE_HIERARCHY,
+): Set<string> {
+	const expanded = new Set<string>();
+	const pending = [...roles];
+
+	while (pending.length > 0) {
+		const role = pending.pop() as string;
+		if (expanded.has(role)) {
+			// Already visited; also stops cycles in the hierarchy
+			continue;
+		}
+		expanded.add(role);
+		if (Object.hasOwn(hierarchy, role)) {
+			pending.push(...hierarchy[role]);
+		}
+	}
+
+	return expanded;
+}
+
+/**
+ * Check whether a user holds at least one of the required roles, directly or inherited.
+ */
+export async function hasAnyRole<TUser>(
+	user: TUser,
+	required: readonly string[],
+	config: RbacConfig<TUser> = {},
+): Promise<boolean> {
+	const getRoles = config.getRoles ?? defaultRoleExtractor;
+	const granted = expandRoles(
+		toRoleList(await getRoles(user)),
+		config.hierarchy ?? DEFAULT_ROLE_HIERARCHY,
+	);
+	return required.some((role) => granted.has(role));
+}
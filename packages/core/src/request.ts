@@ -0,0 +1,54 @@
+import { getOverrides } from "./overrides";
+
+export type RequestHeadersInit = Headers | Record<string, string> | Array<[string, string]>;
+
+/**
+ * Supplies the headers of the request that invoked a Server Action.
+ * Called once per action invocation, before any pipeline step runs.
+ */
+export type HeadersSource = () => RequestHeadersInit | Promise<RequestHeadersInit>;
+
+/**
+ * Default headers source backed by `next/headers`.
+ *
+ * Copies the incoming request headers and rebuilds the `cookie` header from
+ * `cookies()`, so cookies written earlier in the same request are visible too.
+ * Falls back to empty headers when Next.js is not installed or when called
+ * outside of a request scope (scripts, unit tests).
+ */
+export async function nextHeaders(): Promise<Headers> {
+	try {
+		const { headers, cookies } = await import("next/headers");
+		const result = new Headers(await headers());
+
+		const cookieStore = await cookies();
+		const cookieHeader = cookieStore
+			.getAll()
+			.map(({ name, value }) => `${name}=${value}`)
+			.join("; ");
+		if (cookieHeader) {
+			result.set("cookie", cookieHeader);
+		}
+
+		return result;
+	} catch {
+		return new Headers();
+	}
+}
+
+/**
+ * Resolve request headers from the configured source, defaulting to `next/headers`.
+ * Always returns a fresh `Headers` instance so steps cannot mutate the source.
+ */
+export async function resolveRequestHeaders(source?: HeadersSource): Promise<Headers> {
+	const simulated = getOverrides()?.headers;
+	if (simulated) {
+		return new Headers(simulated);
+	}
+
+	if (!source) {
+		return nextHeaders();
+	}
+
+	return new Headers(await source());
+}
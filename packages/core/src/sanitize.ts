@@ -21,13 +21,18 @@ export function escapeHtml(str: string): string {
 	return str.replace(HTML_ESCAPE_REGEX, (char) => HTML_ENTITY_MAP[char]);
 }
 
+/** Files and other binary payloads carry no markup to escape */
+function isBinary(value: unknown): boolean {
+	return typeof Blob !== "undefined" && value instanceof Blob;
+}
+
 /** Sanitize a single value (string -> escaped, others pass through unchanged) */
 export function sanitizeValue(value: unknown): unknown {
 	if (typeof value === "string") {
 		return escapeHtml(value);
 	}
 
-	if (value === null || value === undefined) {
+	if (value === null || value === undefined || isBinary(value)) {
 		return value;
 	}
 
@@ -65,7 +70,7 @@ function sanitizeDeep(value: unknown, config: SanitizeConfig, currentKey?: strin
 		return escapeHtml(value);
 	}
 
-	if (value === null || value === undefined) {
+	if (value === null || value === undefined || isBinary(value)) {
 		return value;
 	}
 
@@ -96,7 +101,7 @@ export function sanitizeInput<T>(input: T, config?: SanitizeConfig): T {
 		deep: config?.deep ?? true,
 	};
 
-	if (input === null || input === undefined) {
+	if (input === null || input === undefined || isBinary(input)) {
 		return input;
 	}
 
@@ -0,0 +1,332 @@
+/**
+ * Minimal structural introspection of Zod schemas.
+ *
+ * Reads the internal definition of Zod 3 (`_def.typeName`) and Zod 4
+ * (`_zod.def.type`) schemas so ActionGuard can walk a schema without
+ * depending on a specific Zod major version at runtime.
+ */
+
+interface SchemaDef {
+	typeName?: string;
+	type?: unknown;
+	innerType?: unknown;
+	schema?: unknown;
+	in?: unknown;
+	getter?: () => unknown;
+	shape?: unknown;
+	element?: unknown;
+	items?: unknown[];
+	valueType?: unknown;
+}
+
+export interface UnwrappedSchema {
+	/** The schema with optional/nullable/default/effects wrappers removed. */
+	schema: unknown;
+	optional: boolean;
+	nullable: boolean;
+}
+
+const OPTIONAL_WRAPPERS = new Set(["optional", "default", "prefault", "catch"]);
+
+/** How to reach the wrapped schema for each wrapper kind. */
+const WRAPPERS = new Map<string, (def: SchemaDef) => unknown>([
+	["optional", (def) => def.innerType],
+	["default", (def) => def.innerType],
+	["prefault", (def) => def.innerType],
+	["catch", (def) => def.innerType],
+	["nullable", (def) => def.innerType],
+	["readonly", (def) => def.innerType],
+	["nonoptional", (def) => def.innerType],
+	["promise", (def) => def.innerType ?? def.type],
+	["effects", (def) => def.schema],
+	["pipeline", (def) => def.in],
+	["pipe", (def) => def.in],
+	["branded", (def) => def.type],
+	["lazy", (def) => def.getter?.()],
+]);
+
+function getDef(schema: unknown): SchemaDef | undefined {
+	if (schema === null || typeof schema !== "object") {
+		return undefined;
+	}
+
+	const v4 = (schema as { _zod?: { def?: SchemaDef } })._zod?.def;
+	if (v4) {
+		return v4;
+	}
+
+	return (schema as { _def?: SchemaDef })._def;
+}
+
+/**
+ * Normalized kind of a schema, e.g. "object", "array", "number", "optional".
+ * Zod 3 type names are mapped to the Zod 4 spelling (`ZodObject` -> "object").
+ */
+export function schemaKind(schema: unknown): string {
+	const def = getDef(schema);
+	if (!def) {
+		return "unknown";
+	}
+
+	if (typeof def.typeName === "string") {
+		const name = def.typeName.replace(/^Zod/, "");
+		return name.charAt(0).toLowerCase() + name.slice(1);
+	}
+
+	return typeof def.type === "string" ? def.type : "unknown";
+}
+
+/**
+ * Strip wrappers that do not change the shape of the data:
+ * optional, nullable, default, catch, readonly, refinements, transforms, pipes, brands and lazy.
+ */
+export function unwrapSchema(schema: unknown): UnwrappedSchema {
+	let current = schema;
+	let optional = false;
+	let nullable = false;
+
+	// Bounded so a self-referencing lazy schema cannot loop forever
+	for (let depth = 0; depth < 32; depth++) {
+		const def = getDef(current);
+		const kind = schemaKind(current);
+		const unwrap = WRAPPERS.get(kind);
+		if (!def || !unwrap) {
+			break;
+		}
+
+		optional ||= OPTIONAL_WRAPPERS.has(kind);
+		nullable ||= kind === "nullable";
+		current = unwrap(def);
+	}
+
+	return { schema: current, optional, nullable };
+}
+
+/** Property schemas of an object schema, or undefined for other kinds. */
+export function objectShape(schema: unknown): Record<string, unknown> | undefined {
+	if (schemaKind(schema) !== "object") {
+		return undefined;
+	}
+
+	const shape = (schema as { shape?: unknown }).shape ?? getDef(schema)?.shape;
+	const resolved = typeof shape === "function" ? shape() : shape;
+	return resolved && typeof resolved === "object"
+		? (resolved as Record<string, unknown>)
+		: undefined;
+}
+
+/** Element schema of an array schema, or undefined for other kinds. */
+export function arrayElement(schema: unknown): unknown {
+	if (schemaKind(schema) !== "array") {
+		return undefined;
+	}
+
+	const def = getDef(schema);
+	return def?.element ?? def?.type;
+}
+
+/** Item schemas of a tuple schema, or undefined for other kinds. */
+export function tupleItems(schema: unknown): unknown[] | undefined {
+	return schemaKind(schema) === "tuple" ? getDef(schema)?.items : undefined;
+}
+
+/** Value schema of a record schema, or undefined for other kinds. */
+export function recordValue(schema: unknown): unknown {
+	return schemaKind(schema) === "record" ? getDef(schema)?.valueType : undefined;
+}
+
+/** JSON Schema-like description of a schema's data, as listed by `action.describe()`. */
+export interface SchemaShape {
+	type?: string;
+	properties?: Record<string, SchemaShape>;
+	required?: string[];
+	items?: SchemaShape | SchemaShape[];
+	additionalProperties?: SchemaShape;
+	enum?: unknown[];
+	const?: unknown;
+	anyOf?: SchemaShape[];
+	nullable?: boolean;
+	format?: string;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	minItems?: number;
+	maxItems?: number;
+}
+
+interface Zod3Check {
+	kind: string;
+	value?: number;
+	inclusive?: boolean;
+}
+
+const STRING_FORMATS = new Set([
+	"email",
+	"url",
+	"uuid",
+	"cuid",
+	"cuid2",
+	"ulid",
+	"datetime",
+	"date",
+	"time",
+	"ip",
+	"emoji",
+]);
+
+type BoundKey =
+	| "minLength"
+	| "maxLength"
+	| "minimum"
+	| "maximum"
+	| "exclusiveMinimum"
+	| "exclusiveMaximum";
+
+/** Where a min/max check lands: string length, inclusive or exclusive bound. */
+const BOUND_KEYS: Record<"min" | "max", Record<"length" | "inclusive" | "exclusive", BoundKey>> = {
+	min: { length: "minLength", inclusive: "minimum", exclusive: "exclusiveMinimum" },
+	max: { length: "maxLength", inclusive: "maximum", exclusive: "exclusiveMaximum" },
+};
+
+function setBound(shape: SchemaShape, bound: "min" | "max", check: Zod3Check): void {
+	const keys = BOUND_KEYS[bound];
+	const key =
+		shape.type === "string"
+			? keys.length
+			: check.inclusive === false
+				? keys.exclusive
+				: keys.inclusive;
+	shape[key] = check.value;
+}
+
+/** Length, range and format checks. Only Zod 3 exposes them in a readable form. */
+function describeChecks(schema: unknown, shape: SchemaShape): SchemaShape {
+	const checks = (getDef(schema) as { checks?: unknown })?.checks;
+	if (!Array.isArray(checks)) {
+		return shape;
+	}
+
+	for (const check of checks as Zod3Check[]) {
+		if (check.kind === "int") {
+			shape.type = "integer";
+		}
+		if (check.kind === "min" || check.kind === "length") {
+			setBound(shape, "min", check);
+		}
+		if (check.kind === "max" || check.kind === "length") {
+			setBound(shape, "max", check);
+		}
+		if (STRING_FORMATS.has(check.kind)) {
+			shape.format = check.kind;
+		}
+	}
+	return shape;
+}
+
+function enumValues(schema: unknown): unknown[] {
+	const def = getDef(schema) as { values?: unknown; entries?: unknown } | undefined;
+	if (Array.isArray(def?.values)) {
+		return def.values;
+	}
+
+	// Native enums and Zod 4 enums map names to values; numeric enums also map values back
+	const entries = (def?.entries ?? def?.values ?? {}) as Record<string, unknown>;
+	return Object.keys(entries)
+		.filter((key) => typeof entries[entries[key] as string] !== "number")
+		.map((key) => entries[key]);
+}
+
+type ShapeDescriber = (schema: unknown, depth: number) => SchemaShape;
+
+const DESCRIBERS = new Map<string, ShapeDescriber>([
+	["string", (schema) => describeChecks(schema, { type: "string" })],
+	["number", (schema) => describeChecks(schema, { type: "number" })],
+	["bigint", () => ({ type: "bigint" })],
+	["boolean", () => ({ type: "boolean" })],
+	["date", () => ({ type: "date" })],
+	["null", () => ({ type: "null" })],
+	["enum", (schema) => ({ enum: enumValues(schema) })],
+	["nativeEnum", (schema) => ({ enum: enumValues(schema) })],
+	[
+		"literal",
+		(schema) => {
+			const def = getDef(schema) as { value?: unknown; values?: unknown[] };
+			return { const: def.values ? def.values[0] : def.value };
+		},
+	],
+	[
+		"union",
+		(schema, depth) => {
+			const options = (getDef(schema) as { options?: unknown[] }).options ?? [];
+			return { anyOf: options.map((option) => describeAt(option, depth + 1)) };
+		},
+	],
+	[
+		"object",
+		(schema, depth) => {
+			const properties: Record<string, SchemaShape> = {};
+			const required: string[] = [];
+			for (const [key, property] of Object.entries(objectShape(schema) ?? {})) {
+				properties[key] = describeAt(property, depth + 1);
+				if (!unwrapSchema(property).optional) {
+					required.push(key);
+				}
+			}
+			return { type: "object", properties, required };
+		},
+	],
+	[
+		"array",
+		(schema, depth) => {
+			const def = getDef(schema) as {
+				minLength?: { value: number };
+				maxLength?: { value: number };
+			};
+			return {
+				type: "array",
+				items: describeAt(arrayElement(schema), depth + 1),
+				minItems: def.minLength?.value,
+				maxItems: def.maxLength?.value,
+			};
+		},
+	],
+	[
+		"tuple",
+		(schema, depth) => ({
+			type: "array",
+			items: (tupleItems(schema) ?? []).map((item) => describeAt(item, depth + 1)),
+		}),
+	],
+	[
+		"record",
+		(schema, depth) => ({
+			type: "object",
+			additionalProperties: describeAt(recordValue(schema), depth + 1),
+		}),
+	],
+]);
+
+function describeAt(schema: unknown, depth: number): SchemaShape {
+	const { schema: inner, nullable } = unwrapSchema(schema);
+	// Bounded like unwrapSchema so recursive schemas end in an open shape
+	const describer = depth < 32 ? DESCRIBERS.get(schemaKind(inner)) : undefined;
+	const shape = describer ? describer(inner, depth) : {};
+
+	for (const key of Object.keys(shape) as (keyof SchemaShape)[]) {
+		if (shape[key] === undefined) {
+			delete shape[key];
+		}
+	}
+	return nullable ? { ...shape, nullable: true } : shape;
+}
+
+/**
+ * Describe the data a schema accepts as a JSON Schema-like object: types, object
+ * properties, array items, enums and literals. Refinements and transforms are not described.
+ */
+export function describeSchema(schema: unknown): SchemaShape {
+	return describeAt(schema, 0);
+}
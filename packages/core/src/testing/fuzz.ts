@@ -0,0 +1,466 @@
+import type { SchemaShape } from "../schema-inspect";
+import type { ActionResult, GuardedAction } from "../types";
+import { type TestRequest, withRequest } from "./harness";
+
+export type FuzzCategory = "valid" | "boundary" | "malicious";
+
+export type FuzzFindingKind =
+	| "crash"
+	| "unexpected-code"
+	| "unsanitized-echo"
+	| "prototype-pollution";
+
+export interface FuzzCase {
+	category: FuzzCategory;
+	/** What the case tries, e.g. `title: max length + 1`. */
+	label: string;
+	input: unknown;
+	/** Markup that must not come back unescaped in a successful result. */
+	payload?: string;
+}
+
+export interface FuzzFinding extends FuzzCase {
+	kind: FuzzFindingKind;
+	message: string;
+	result?: ActionResult<unknown>;
+	error?: unknown;
+}
+
+export interface FuzzReport {
+	/** Number of cases run. */
+	cases: number;
+	findings: FuzzFinding[];
+	/** Number of results per code, with "OK" for successes. */
+	outcomes: Record<string, number>;
+}
+
+export interface FuzzOptions {
+	/** Request every case runs under, e.g. a stubbed user and a CSRF token. */
+	request?: TestRequest;
+	/**
+	 * Failure codes that are not findings. Default: ["VALIDATION_ERROR"]. Add codes such
+	 * as "RATE_LIMITED" when the action's limits are lower than the number of cases.
+	 */
+	allowedCodes?: string[];
+	/** Random valid inputs to generate. Default: 10 */
+	runs?: number;
+	/** Seed for the random valid inputs, to reproduce a run. Default: 1 */
+	seed?: number;
+}
+
+type Random = () => number;
+
+/** Small seeded PRNG (mulberry32), so runs are reproducible. */
+function createRandom(seed: number): Random {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function pick<T>(items: readonly T[], random: Random): T {
+	return items[Math.floor(random() * items.length)];
+}
+
+function between(min: number, max: number, random: Random): number {
+	return max < min ? min : min + Math.floor(random() * (max - min + 1));
+}
+
+const FORMAT_SAMPLES: Record<string, string> = {
+	email: "user@example.com",
+	url: "https://example.com/",
+	uuid: "123e4567-e89b-42d3-a456-426614174000",
+	cuid: "cjld2cjxh0000qzrmn831i7rn",
+	cuid2: "tz4a98xxat96iws9zmbrgj3a",
+	ulid: "01ARZ3NDEKTSV4RRFFQ69G5FAV",
+	datetime: "2024-01-01T00:00:00Z",
+	date: "2024-01-01",
+	time: "12:00:00",
+	ip: "203.0.113.7",
+	emoji: "🙂",
+};
+
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+function validString(shape: SchemaShape, random: Random): string {
+	if (shape.format && Object.hasOwn(FORMAT_SAMPLES, shape.format)) {
+		return FORMAT_SAMPLES[shape.format];
+	}
+
+	const min = shape.minLength ?? 1;
+	const length = between(min, Math.max(min, Math.min(shape.maxLength ?? 12, min + 12)), random);
+	return Array.from({ length }, () => pick([...ALPHABET], random)).join("");
+}
+
+function validNumber(shape: SchemaShape, random: Random): number {
+	const min =
+		shape.minimum ?? (shape.exclusiveMinimum !== undefined ? shape.exclusiveMinimum + 1 : 0);
+	const max =
+		shape.maximum ??
+		(shape.exclusiveMaximum !== undefined ? shape.exclusiveMaximum - 1 : min + 100);
+	// Exclusive bounds closer than 1 apart only fit a fraction
+	return max < min ? (min + max) / 2 : between(Math.ceil(min), Math.floor(max), random);
+}
+
+function validObject(shape: SchemaShape, random: Random): Record<string, unknown> {
+	const value: Record<string, unknown> = {};
+	for (const [key, property] of Object.entries(shape.properties ?? {})) {
+		if (shape.required?.includes(key) || random() < 0.5) {
+			value[key] = validValue(property, random);
+		}
+	}
+	if (shape.additionalProperties) {
+		value.key = validValue(shape.additionalProperties, random);
+	}
+	return value;
+}
+
+function validArray(shape: SchemaShape, random: Random): unknown[] {
+	if (Array.isArray(shape.items)) {
+		return shape.items.map((item) => validValue(item, random));
+	}
+
+	const items = shape.items ?? {};
+	const length = between(shape.minItems ?? 0, shape.maxItems ?? (shape.minItems ?? 0) + 3, random);
+	return Array.from({ length }, () => validValue(items, random));
+}
+
+const VALID_GENERATORS: Record<string, (shape: SchemaShape, random: Random) => unknown> = {
+	string: validString,
+	number: validNumber,
+	integer: validNumber,
+	boolean: (_shape, random) => random() < 0.5,
+	bigint: () => 1n,
+	date: () => new Date(0),
+	null: () => null,
+	object: validObject,
+	array: validArray,
+};
+
+function validValue(shape: SchemaShape, random: Random): unknown {
+	if ("const" in shape) {
+		return shape.const;
+	}
+	if (shape.enum) {
+		return pick(shape.enum, random);
+	}
+	if (shape.anyOf) {
+		return validValue(pick(shape.anyOf, random), random);
+	}
+
+	const generate = shape.type ? VALID_GENERATORS[shape.type] : undefined;
+	return generate ? generate(shape, random) : "value";
+}
+
+/** A place in the input to mutate: the root or an object property. */
+interface Leaf {
+	path: string[];
+	shape: SchemaShape;
+	required: boolean;
+}
+
+function collectLeaves(shape: SchemaShape, path: string[] = [], required = true): Leaf[] {
+	const leaves: Leaf[] = [{ path, shape, required }];
+	for (const [key, property] of Object.entries(shape.properties ?? {})) {
+		leaves.push(...collectLeaves(property, [...path, key], shape.required?.includes(key) ?? false));
+	}
+	return leaves;
+}
+
+const REMOVE = Symbol("remove");
+
+function replaceAt(base: unknown, path: string[], value: unknown): unknown {
+	if (path.length === 0) {
+		return value;
+	}
+
+	const copy = structuredClone(base) as Record<string, unknown>;
+	let target = copy;
+	for (const key of path.slice(0, -1)) {
+		target = target[key] as Record<string, unknown>;
+		if (target === null || typeof target !== "object") {
+			return copy;
+		}
+	}
+
+	const last = path[path.length - 1];
+	if (value === REMOVE) {
+		delete target[last];
+	} else {
+		target[last] = value;
+	}
+	return copy;
+}
+
+/** Boundary values for a shape, labelled. */
+function boundaryValues(shape: SchemaShape): Array<[string, unknown]> {
+	switch (shape.type) {
+		case "string": {
+			const values: Array<[string, unknown]> = [
+				["empty string", ""],
+				["whitespace", "   "],
+				["unicode and control characters", "Ünïcødé 🙂\u0000‮"],
+			];
+			if (shape.minLength) {
+				values.push(["min length - 1", "a".repeat(shape.minLength - 1)]);
+			}
+			if (shape.maxLength !== undefined) {
+				values.push(["max length", "a".repeat(shape.maxLength)]);
+				values.push(["max length + 1", "a".repeat(shape.maxLength + 1)]);
+			}
+			return values;
+		}
+		case "number":
+		case "integer":
+			return [
+				["zero", 0],
+				["negative", -1],
+				["fraction", 0.5],
+				["minimum - 1", (shape.minimum ?? shape.exclusiveMinimum ?? 0) - 1],
+				["maximum + 1", (shape.maximum ?? shape.exclusiveMaximum ?? 0) + 1],
+				["unsafe integer", Number.MAX_SAFE_INTEGER + 2],
+				["NaN", Number.NaN],
+				["Infinity", Number.POSITIVE_INFINITY],
+			];
+		case "array":
+			return [
+				["empty array", []],
+				["max items + 1", Array.from({ length: (shape.maxItems ?? 100) + 1 }, () => null)],
+			];
+		case "object":
+			return [["empty object", {}]];
+		default:
+			return [];
+	}
+}
+
+const XSS_PAYLOADS = [
+	"<script>alert(1)</script>",
+	'"><img src=x onerror=alert(1)>',
+	"<svg/onload=alert(1)>",
+];
+
+const INJECTION_STRINGS = [
+	"' OR '1'='1' --",
+	"../../etc/passwd",
+	// Template injection, split so it does not look like a mistyped template literal
+	"$" + "{7*7}{{7*7}}",
+	"javascript:alert(1)",
+];
+
+const WRONG_TYPES: Array<[string, unknown]> = [
+	["number", 42],
+	["numeric string", "42"],
+	["boolean", true],
+	["object", { $gt: "" }],
+	["array", ["x"]],
+	["null", null],
+];
+
+/** Type of a value as a schema shape names it. */
+function shapeTypeOf(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	return Array.isArray(value) ? "array" : typeof value;
+}
+
+function deepObject(depth: number): unknown {
+	let value: unknown = "leaf";
+	for (let i = 0; i < depth; i++) {
+		value = { nested: value };
+	}
+	return value;
+}
+
+function leafCases(leaf: Leaf, base: unknown): FuzzCase[] {
+	const name = leaf.path.join(".") || "input";
+	const at = (value: unknown) => replaceAt(base, leaf.path, value);
+	const cases: FuzzCase[] = boundaryValues(leaf.shape).map(([label, value]) => ({
+		category: "boundary",
+		label: `${name}: ${label}`,
+		input: at(value),
+	}));
+
+	if (leaf.required) {
+		cases.push({ category: "boundary", label: `${name}: missing`, input: at(REMOVE) });
+	}
+
+	for (const [label, value] of WRONG_TYPES) {
+		const type = shapeTypeOf(value);
+		const matches =
+			type === leaf.shape.type || (type === "number" && leaf.shape.type === "integer");
+		if (!matches) {
+			cases.push({
+				category: "malicious",
+				label: `${name}: wrong type (${label})`,
+				input: at(value),
+			});
+		}
+	}
+
+	if (leaf.shape.type === "string") {
+		for (const payload of XSS_PAYLOADS) {
+			cases.push({ category: "malicious", label: `${name}: XSS`, input: at(payload), payload });
+		}
+		for (const value of INJECTION_STRINGS) {
+			cases.push({ category: "malicious", label: `${name}: injection`, input: at(value) });
+		}
+		cases.push({
+			category: "malicious",
+			label: `${name}: 1 MB string`,
+			input: at("a".repeat(2 ** 20)),
+		});
+	}
+
+	return cases;
+}
+
+function rootCases(base: unknown): FuzzCase[] {
+	const cases: FuzzCase[] = [
+		{ category: "malicious", label: "input: undefined", input: undefined },
+		{ category: "malicious", label: "input: 100k item array", input: new Array(100_000).fill("a") },
+		{ category: "malicious", label: "input: deeply nested object", input: deepObject(1_000) },
+	];
+
+	if (base !== null && typeof base === "object" && !Array.isArray(base)) {
+		for (const pollution of [
+			'{"__proto__":{"polluted":"yes"}}',
+			'{"constructor":{"prototype":{"polluted":"yes"}}}',
+		]) {
+			cases.push({
+				category: "malicious",
+				label: `input: prototype pollution ${pollution}`,
+				input: Object.assign(JSON.parse(pollution), structuredClone(base)),
+			});
+		}
+	}
+	return cases;
+}
+
+/**
+ * Generate fuzz cases from a schema shape: random valid inputs, boundary values for
+ * every property, and hostile inputs such as XSS strings, wrong types, prototype
+ * pollution keys and huge payloads.
+ */
+export function generateFuzzCases(
+	shape: SchemaShape,
+	options: Pick<FuzzOptions, "runs" | "seed"> = {},
+): FuzzCase[] {
+	const random = createRandom(options.seed ?? 1);
+	const cases: FuzzCase[] = Array.from({ length: options.runs ?? 10 }, (_, index) => ({
+		category: "valid",
+		label: `valid input #${index + 1}`,
+		input: validValue(shape, random),
+	}));
+
+	const base = validValue(shape, random);
+	for (const leaf of collectLeaves(shape)) {
+		cases.push(...leafCases(leaf, base));
+	}
+	cases.push(...rootCases(base));
+	return cases;
+}
+
+/** Remove and report a property that reached `Object.prototype`. */
+function takePollution(): boolean {
+	if (!Object.hasOwn(Object.prototype, "polluted")) {
+		return false;
+	}
+	delete (Object.prototype as Record<string, unknown>).polluted;
+	return true;
+}
+
+function checkResult(
+	testCase: FuzzCase,
+	result: ActionResult<unknown>,
+	allowedCodes: Set<string>,
+): FuzzFinding | undefined {
+	if (!result.success) {
+		const code = result.code ?? "UNKNOWN";
+		if (code === "INTERNAL_ERROR" || code === "OUTPUT_VALIDATION_ERROR") {
+			return { ...testCase, kind: "crash", message: `Returned ${code}`, result };
+		}
+		return allowedCodes.has(code)
+			? undefined
+			: { ...testCase, kind: "unexpected-code", message: `Returned ${code}`, result };
+	}
+
+	if (testCase.payload && JSON.stringify(result.data)?.includes(testCase.payload)) {
+		return {
+			...testCase,
+			kind: "unsanitized-echo",
+			message: "Returned the markup unescaped",
+			result,
+		};
+	}
+	return undefined;
+}
+
+async function runCase(
+	action: GuardedAction<unknown>,
+	testCase: FuzzCase,
+	options: FuzzOptions,
+	allowedCodes: Set<string>,
+): Promise<{ code: string; findings: FuzzFinding[] }> {
+	const findings: FuzzFinding[] = [];
+	let code: string;
+
+	try {
+		const result = await withRequest(options.request ?? {}, () => action(testCase.input));
+		code = result.success ? "OK" : (result.code ?? "UNKNOWN");
+		const finding = checkResult(testCase, result, allowedCodes);
+		if (finding) {
+			findings.push(finding);
+		}
+	} catch (error) {
+		code = "THROWN";
+		findings.push({ ...testCase, kind: "crash", message: "The action threw", error });
+	}
+
+	if (takePollution()) {
+		findings.push({
+			...testCase,
+			kind: "prototype-pollution",
+			message: "Object.prototype gained a property",
+		});
+	}
+	return { code, findings };
+}
+
+/**
+ * Run generated inputs through an action's full pipeline and report crashes,
+ * unexpected codes, unescaped markup in results and prototype pollution.
+ * Inputs are generated from the action's first `.schema()` step.
+ *
+ * ```ts
+ * const report = await fuzzAction(createPost, { request: { user: { id: "user-1" } } });
+ * expect(report.findings).toEqual([]);
+ * ```
+ *
+ * @throws {Error} When the action has no `.schema()` step.
+ */
+export async function fuzzAction(
+	action: GuardedAction<unknown>,
+	options: FuzzOptions = {},
+): Promise<FuzzReport> {
+	const schemaStep = action.describe().steps.find((step) => step.type === "schema");
+	if (!schemaStep?.config) {
+		throw new Error("fuzzAction() needs an action with a .schema() step");
+	}
+
+	const allowedCodes = new Set(options.allowedCodes ?? ["VALIDATION_ERROR"]);
+	const cases = generateFuzzCases(schemaStep.config.schema as SchemaShape, options);
+	const report: FuzzReport = { cases: cases.length, findings: [], outcomes: {} };
+
+	for (const testCase of cases) {
+		const { code, findings } = await runCase(action, testCase, options, allowedCodes);
+		report.outcomes[code] = (report.outcomes[code] ?? 0) + 1;
+		report.findings.push(...findings);
+	}
+	return report;
+}
@@ -0,0 +1,167 @@
+import { DEFAULTS as CSRF_DEFAULTS } from "../csrf";
+import { type Overrides, runWithOverrides } from "../overrides";
+import { parseWindow } from "../rate-limit";
+import type { ActionFailure, ActionResult, AuditEntry } from "../types";
+
+export interface TestClock {
+	/** Current time in epoch ms. */
+	now(): number;
+	/** Move the clock forward by milliseconds or a window such as "1m". */
+	advance(by: number | string): void;
+	/** Jump to a point in time. */
+	set(time: number | Date): void;
+}
+
+/**
+ * Create a clock for the built-in memory stores: rate limits, idempotency keys,
+ * cached results and audit timestamps. Time only moves when told to.
+ */
+export function createTestClock(start: number | Date = Date.now()): TestClock {
+	let current = Number(start);
+
+	return {
+		now: () => current,
+		advance(by) {
+			current += typeof by === "string" ? parseWindow(by) : by;
+		},
+		set(time) {
+			current = Number(time);
+		},
+	};
+}
+
+export interface AuditSink {
+	/** Entries written so far, oldest first. */
+	readonly entries: AuditEntry[];
+	write(entry: AuditEntry): void;
+	clear(): void;
+}
+
+/**
+ * Create a sink that collects audit entries instead of logging them.
+ */
+export function createAuditSink(): AuditSink {
+	const entries: AuditEntry[] = [];
+
+	return {
+		entries,
+		write(entry) {
+			entries.push(entry);
+		},
+		clear() {
+			entries.length = 0;
+		},
+	};
+}
+
+export interface TestRequest {
+	/** Request headers. Replace the guard's headers source. */
+	headers?: Record<string, string>;
+	/** Cookies, sent as the `cookie` header. */
+	cookies?: Record<string, string>;
+	/** Client IP, sent as `x-forwarded-for`. */
+	ip?: string;
+	/**
+	 * Skip the auth provider and use this user. `null` simulates a signed-out caller;
+	 * leave it out to run the real provider against the simulated headers.
+	 */
+	user?: unknown;
+	/** Send this token in the default CSRF header and cookie so `.csrf()` passes. */
+	csrfToken?: string;
+	clock?: TestClock;
+	audit?: AuditSink;
+}
+
+function buildHeaders(request: TestRequest): Headers {
+	const headers = new Headers(request.headers);
+	const cookies = { ...request.cookies };
+
+	if (request.ip !== undefined) {
+		headers.set("x-forwarded-for", request.ip);
+	}
+	if (request.csrfToken !== undefined) {
+		headers.set(CSRF_DEFAULTS.headerName, request.csrfToken);
+		cookies[CSRF_DEFAULTS.cookieName] = request.csrfToken;
+	}
+
+	const cookieHeader = Object.entries(cookies)
+		.map(([name, value]) => `${name}=${value}`)
+		.join("; ");
+	if (cookieHeader) {
+		const existing = headers.get("cookie");
+		headers.set("cookie", existing ? `${existing}; ${cookieHeader}` : cookieHeader);
+	}
+
+	return headers;
+}
+
+/**
+ * Run with a simulated request. Every action called inside, however deeply,
+ * sees the request, user, clock and audit sink.
+ *
+ * ```ts
+ * const result = await withRequest({ user: null }, () => updateProfile(prevState, formData));
+ * ```
+ */
+export function withRequest<T>(request: TestRequest, run: () => T): T {
+	const overrides: Overrides = { headers: buildHeaders(request) };
+
+	if ("user" in request) {
+		overrides.user = { value: request.user };
+	}
+	if (request.clock) {
+		overrides.now = request.clock.now;
+	}
+	if (request.audit) {
+		overrides.audit = request.audit.write;
+	}
+
+	return runWithOverrides(overrides, run);
+}
+
+/**
+ * Call an action with one input under a simulated request.
+ */
+export function invokeAction<TResult>(
+	action: (input: unknown) => Promise<TResult>,
+	input?: unknown,
+	request: TestRequest = {},
+): Promise<TResult> {
+	return withRequest(request, () => action(input));
+}
+
+function describeResult(result: ActionResult<unknown>): string {
+	return result.success
+		? "it succeeded"
+		: `it was rejected with ${result.code ?? "no code"}: ${result.error}`;
+}
+
+/**
+ * Assert that a call was rejected, optionally with a specific code.
+ *
+ * @throws {Error} When the call succeeded or was rejected with another code.
+ */
+export function expectRejected(
+	result: ActionResult<unknown>,
+	code?: string,
+): asserts result is ActionFailure {
+	if (!result.success && (code === undefined || result.code === code)) {
+		return;
+	}
+
+	const expected = code ? `rejected with ${code}` : "rejected";
+	throw new Error(`Expected the action to be ${expected}, but ${describeResult(result)}`);
+}
+
+/**
+ * Assert that a call succeeded.
+ *
+ * @throws {Error} When the call was rejected.
+ */
+export function expectSuccess<T>(
+	result: ActionResult<T>,
+): asserts result is Extract<ActionResult<T>, { success: true }> {
+	if (!result.success) {
+		throw new Error(`Expected the action to succeed, but ${describeResult(result)}`);
+	}
+}
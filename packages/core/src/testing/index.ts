@@ -0,0 +1,44 @@
+/**
+ * Test helpers for guarded actions: simulated requests, a stubbed user,
+ * a controllable clock, a captured audit trail and a schema-driven fuzzer.
+ *
+ * ```ts
+ * import {
+ *   createTestClock,
+ *   expectRejected,
+ *   expectSuccess,
+ *   fuzzAction,
+ *   invokeAction,
+ * } from "actionguard/testing";
+ *
+ * const clock = createTestClock();
+ * const request = { user: { id: "user-1" }, ip: "203.0.113.7", clock };
+ *
+ * for (let i = 0; i < 5; i++) await invokeAction(createPost, { title: "Hi" }, request);
+ * expectRejected(await invokeAction(createPost, { title: "Hi" }, request), "RATE_LIMITED");
+ *
+ * clock.advance("1m");
+ * expectSuccess(await invokeAction(createPost, { title: "Hi" }, request));
+ *
+ * const report = await fuzzAction(createPost, { request: { user: { id: "user-1" } } });
+ * expect(report.findings).toEqual([]);
+ * ```
+ */
+export type {
+	FuzzCase,
+	FuzzCategory,
+	FuzzFinding,
+	FuzzFindingKind,
+	FuzzOptions,
+	FuzzReport,
+} from "./fuzz";
+export { fuzzAction, generateFuzzCases } from "./fuzz";
+export type { AuditSink, TestClock, TestRequest } from "./harness";
+export {
+	createAuditSink,
+	createTestClock,
+	expectRejected,
+	expectSuccess,
+	invokeAction,
+	withRequest,
+} from "./harness";
@@ -0,0 +1,119 @@
+import type { Attributes, Span, SpanStatusCode, Tracer } from "@opentelemetry/api";
+import { isActionError } from "./errors";
+import type { ActionResult, AuditConfig, MiddlewareContext } from "./types";
+
+/** Codes that mean the action broke, as opposed to a rejected call. */
+const ERROR_CODES = new Set(["INTERNAL_ERROR", "OUTPUT_VALIDATION_ERROR", "TIMEOUT"]);
+
+/** `SpanStatusCode.ERROR`, inlined because the enum is a runtime value of the API. */
+const STATUS_ERROR: SpanStatusCode.ERROR = 2;
+
+let api: Promise<typeof import("@opentelemetry/api")> | undefined;
+
+/**
+ * Load `@opentelemetry/api`, an optional peer dependency. Only called once a tracer is
+ * configured, which implies the API is installed.
+ */
+function loadApi(): Promise<typeof import("@opentelemetry/api")> {
+	api ??= import("@opentelemetry/api");
+	return api;
+}
+
+function auditAttributes(audit: AuditConfig | undefined): Attributes {
+	return audit
+		? { "actionguard.audit.action": audit.action, "actionguard.audit.resource": audit.resource }
+		: {};
+}
+
+function recordResult(span: Span, result: ActionResult<unknown> | undefined): void {
+	if (!result || result.success) {
+		return;
+	}
+
+	span.setAttribute("actionguard.code", result.code ?? "UNKNOWN");
+	if (result.code && ERROR_CODES.has(result.code)) {
+		span.setStatus({ code: STATUS_ERROR, message: result.code });
+	}
+}
+
+/**
+ * Start the span of one action call, or return undefined without a tracer.
+ */
+export function startActionSpan(
+	tracer: Tracer | undefined,
+	audit: AuditConfig | undefined,
+): Span | undefined {
+	return tracer?.startSpan("actionguard.action", { attributes: auditAttributes(audit) });
+}
+
+/**
+ * Run with the span active, so spans started by the handler nest under the action span.
+ */
+export async function withActiveSpan<T>(span: Span | undefined, run: () => Promise<T>): Promise<T> {
+	if (!span) {
+		return run();
+	}
+
+	const { context, trace } = await loadApi();
+	return context.with(trace.setSpan(context.active(), span), run);
+}
+
+/**
+ * End the action span with the outcome of the call.
+ */
+export function endActionSpan(span: Span | undefined, result: ActionResult<unknown>): void {
+	if (!span) {
+		return;
+	}
+
+	span.setAttribute("actionguard.success", result.success);
+	recordResult(span, result);
+	span.end();
+}
+
+/**
+ * Run a step, or the handler, in a child span of the action span. The span records the
+ * code of a failure the step returns, the rate-limit quota left and the audit entry.
+ */
+export async function traceStep<TResult extends ActionResult<unknown> | undefined>(
+	tracer: Tracer | undefined,
+	parent: Span | undefined,
+	name: string,
+	ctx: MiddlewareContext,
+	run: () => Promise<TResult>,
+): Promise<TResult> {
+	if (!tracer || !parent) {
+		return run();
+	}
+
+	const { context, trace } = await loadApi();
+	const span = tracer.startSpan(
+		`actionguard.${name}`,
+		{ attributes: { "actionguard.step": name } },
+		trace.setSpan(context.active(), parent),
+	);
+
+	try {
+		const result = await run();
+		recordResult(span, result);
+
+		const rateLimit = ctx.metadata.rateLimit as { remaining: number } | undefined;
+		if (name === "rateLimit" && rateLimit) {
+			span.setAttribute("actionguard.rate_limit.remaining", rateLimit.remaining);
+		}
+		if (name === "audit") {
+			span.setAttributes(auditAttributes(ctx.metadata.audit as AuditConfig | undefined));
+		}
+		return result;
+	} catch (error) {
+		if (isActionError(error)) {
+			span.setAttribute("actionguard.code", error.code);
+		} else {
+			span.recordException(error instanceof Error ? error : String(error));
+			span.setStatus({ code: STATUS_ERROR });
+		}
+		throw error;
+	} finally {
+		span.end();
+	}
+}
@@ -1,4 +1,15 @@
+import type { Tracer } from "@opentelemetry/api";
 import type { ZodSchema, z } from "zod";
+import type { CacheConfig, CacheStore } from "./cache";
+import type { ConcurrencyConfig } from "./concurrency";
+import type { DedupeConfig } from "./dedupe";
+import type { SecurityEventListener, SecurityEventName } from "./events";
+import type { IdempotencyConfig, IdempotencyStore } from "./idempotency";
+import type { MetricsRegistry } from "./metrics";
+import type { PolicyArgs, PolicyLike } from "./policy";
+import type { RbacConfig } from "./rbac";
+import type { HeadersSource } from "./request";
+import type { ValidationErrorFormatter, ValidationErrors } from "./validation";
 
 export interface AuthProvider<TUser = unknown> {
 	resolve: (headers: Headers) => Promise<TUser | null>;
@@ -18,14 +29,31 @@ export interface AuditConfig {
 	piiMasking?: boolean;
 }
 
+/** Entry written after a successful call to an action with an `.audit()` step. */
+export interface AuditEntry {
+	/** ISO 8601 time the handler finished. */
+	timestamp: string;
+	action: string;
+	resource: string;
+	/** `id` of the resolved user, or "anonymous". */
+	userId: string;
+	/** Policy that allowed the call, when the action has an `.authorize()` step. */
+	policy?: string;
+	/** Enforced steps the action opted out of with `.skip()`. */
+	skipped?: SkippedStep[];
+	success: true;
+}
+
 export interface CsrfConfig {
 	enabled?: boolean;
 	cookieName?: string;
 	headerName?: string;
 }
 
-export interface ActionGuardConfig {
-	auth?: AuthProvider;
+export interface ActionGuardConfig<TUser = unknown> extends LifecycleHooks {
+	auth?: AuthProvider<TUser>;
+	/** Source of the incoming request headers. Defaults to `next/headers`. */
+	headers?: HeadersSource;
 	rateLimit?: {
 		store?: "memory" | object;
 		defaultWindow?: string;
@@ -36,6 +64,109 @@ export interface ActionGuardConfig {
 		piiMasking?: boolean;
 	};
 	csrf?: CsrfConfig;
+	/**
+	 * Steps added to every action of this guard. Actions that chain the step themselves
+	 * keep their own; opt out per action with `.skip(step, { reason })`.
+	 */
+	enforce?: EnforcedSteps;
+	/**
+	 * Identify a user in idempotency, dedupe and cache keys. Defaults to the user's `id`,
+	 * else a hash of the whole user.
+	 */
+	scope?: (user: TUser) => string;
+	/** Store for `.cache()` steps. Defaults to an in-memory store per guard. */
+	cache?: {
+		store?: CacheStore;
+	};
+	/** Defaults for `.idempotent()` steps. */
+	idempotency?: {
+		store?: IdempotencyStore;
+		ttl?: string;
+	};
+	/** Default time limit for every action, e.g. "10s". Overridden by `.timeout()`. */
+	timeout?: string;
+	/**
+	 * OpenTelemetry tracer, e.g. `trace.getTracer("actionguard")`. Each call gets an
+	 * `actionguard.action` span with a child span per step and one for the handler.
+	 * No spans are created without a tracer. Requires `@opentelemetry/api`.
+	 */
+	tracer?: Tracer;
+	/** Registry for call and step metrics, e.g. shared between guards. Default: a new registry. */
+	metrics?: MetricsRegistry;
+	/** How `.roles()` reads and expands the user's roles. */
+	rbac?: RbacConfig<TUser>;
+	validation?: {
+		/** Shape schema errors for the client. Defaults to `formatValidationErrors`. */
+		formatErrors?: ValidationErrorFormatter;
+	};
+}
+
+export interface EnforcedSteps {
+	/** Run `.csrf()` before every other step. */
+	csrf?: boolean;
+	/** Run `.sanitize()` right before the handler, after validation. */
+	sanitize?: boolean;
+	/** Audit every action with this config unless it has its own `.audit()`. */
+	audit?: AuditConfig;
+}
+
+/** Enforced steps an action can opt out of with `.skip()`. */
+export type SkippableStep = keyof EnforcedSteps;
+
+/** Recorded in `ctx.metadata.skipped` and the audit entry for every `.skip()`. */
+export interface SkippedStep {
+	step: SkippableStep;
+	reason: string;
+}
+
+/**
+ * Hooks called around every action of a guard. Hooks registered on a builder
+ * run first, then the guard-wide ones. A throwing hook never changes the result;
+ * its error is reported through `onError`.
+ */
+export interface LifecycleHooks {
+	/** Called after the handler succeeds, with the data returned to the client. */
+	onSuccess?: (data: unknown, info: HookInfo) => void | Promise<void>;
+	/**
+	 * Report unexpected errors. The client only receives a generic message and the
+	 * `correlationId`; log it here together with the error. Defaults to `console.error`
+	 * when no guard-wide hook is configured.
+	 */
+	onError?: (error: unknown, info: ErrorInfo) => void | Promise<void>;
+	/** Called when a step rejects the call before the handler finishes. */
+	onBlocked?: (result: ActionFailure, info: BlockedInfo) => void | Promise<void>;
+	/** Called once per call with the final result, whatever the outcome. */
+	onSettled?: (result: ActionResult<unknown>, info: HookInfo) => void | Promise<void>;
+}
+
+export interface HookInfo<TCtx = MiddlewareContext> {
+	ctx: TCtx;
+}
+
+/** Steps that can reject a call with their own failure result. */
+export type RejectingStep =
+	| "auth"
+	| "roles"
+	| "authorize"
+	| "schema"
+	| "bindArgs"
+	| "rateLimit"
+	| "csrf"
+	| "timeout"
+	| "idempotent"
+	| "concurrency"
+	| "use";
+
+export interface BlockedInfo<TCtx = MiddlewareContext> extends HookInfo<TCtx> {
+	/** The step that rejected the call; `"use"` for custom middleware. */
+	step: RejectingStep;
+	code?: string;
+}
+
+export interface ErrorInfo {
+	/** Identifier returned to the client to correlate its report with server logs. */
+	correlationId: string;
+	ctx: MiddlewareContext;
 }
 
 export interface MiddlewareContext<TUser = unknown, TInput = unknown> {
@@ -43,36 +174,310 @@ export interface MiddlewareContext<TUser = unknown, TInput = unknown> {
 	input: TInput;
 	headers: Headers;
 	metadata: Record<string, unknown>;
+	/** Aborted when the action exceeds its timeout. Pass it to fetch and database calls. */
+	signal: AbortSignal;
 }
 
+export type ActionResult<T> =
+	| { success: true; data: T }
+	| {
+			success: false;
+			error: string;
+			code?: string;
+			/** Present on `VALIDATION_ERROR`: messages not tied to a field. */
+			formErrors?: string[];
+			/** Present on `VALIDATION_ERROR`: messages keyed by field path. */
+			fieldErrors?: Record<string, string[]>;
+			/** Present when bound arguments fail validation: one entry per bound argument. */
+			bindArgsErrors?: ValidationErrors[];
+			/** HTTP-style status, set when the failure comes from an `ActionError`. */
+			status?: number;
+			/** Present on `INTERNAL_ERROR`: matches the id passed to `onError`. */
+			correlationId?: string;
+	  };
+
+/** The failure variant of `ActionResult`. */
+export type ActionFailure = Extract<ActionResult<never>, { success: false }>;
+
+/**
+ * Onion-style custom step registered with `.use()`.
+ *
+ * `next()` runs the remaining steps and the handler and resolves to their result.
+ * Return an `ActionResult` to short-circuit or replace that result; return nothing
+ * to pass the downstream result through unchanged.
+ */
 export type Middleware<TCtx = MiddlewareContext> = (
 	ctx: TCtx,
-	next: () => Promise<void>,
-) => Promise<void>;
+	next: () => Promise<ActionResult<unknown>>,
+) => Promise<ActionResult<unknown> | undefined> | Promise<void>;
 
-export type ActionResult<T> =
-	| { success: true; data: T }
-	| { success: false; error: string; code?: string };
-
-export interface ActionGuardInstance {
-	auth: () => ActionBuilder;
-	schema: <T extends ZodSchema>(schema: T) => ActionBuilder<z.infer<T>>;
-	rateLimit: (config: RateLimitConfig) => ActionBuilder;
-	audit: (config: AuditConfig) => ActionBuilder;
-	csrf: () => ActionBuilder;
-	action: <T>(
-		handler: (params: { input: unknown; ctx: MiddlewareContext }) => Promise<T>,
-	) => (...args: unknown[]) => Promise<ActionResult<T>>;
-}
-
-export interface ActionBuilder<TInput = unknown, TUser = unknown> {
-	auth: () => ActionBuilder<TInput, TUser>;
-	schema: <T extends ZodSchema>(schema: T) => ActionBuilder<z.infer<T>, TUser>;
-	rateLimit: (config: RateLimitConfig) => ActionBuilder<TInput, TUser>;
-	audit: (config: AuditConfig) => ActionBuilder<TInput, TUser>;
-	csrf: () => ActionBuilder<TInput, TUser>;
-	sanitize: () => ActionBuilder<TInput, TUser>;
-	action: <T>(
-		handler: (params: { input: TInput; ctx: MiddlewareContext<TUser, TInput> }) => Promise<T>,
-	) => (...args: unknown[]) => Promise<ActionResult<T>>;
+/**
+ * Context seen by the handler and by steps: the base middleware context
+ * merged with every field added through `.context()`.
+ */
+export type ActionContext<
+	TInput = unknown,
+	TUser = unknown,
+	TCtx extends object = object,
+> = MiddlewareContext<TUser, TInput> & TCtx;
+
+/** Output types of the schemas passed to `.bindArgsSchemas()`, as a tuple. */
+export type InferBindArgs<T extends readonly ZodSchema[]> = {
+	-readonly [K in keyof T]: z.infer<T[K]>;
+};
+
+export interface ActionHandlerParams<TInput = unknown, TCtx = ActionContext> {
+	input: TInput;
+	ctx: TCtx;
+	/**
+	 * Previous state when invoked through `useActionState(action, initialState)`. Object
+	 * payloads need `.actionState()` on the action.
+	 */
+	prevState: unknown;
+	/** Validated arguments bound with `action.bind(null, ...)`. Empty without `.bindArgsSchemas()`. */
+	bindArgs: TCtx extends { bindArgs: infer TBindArgs } ? TBindArgs : [];
+}
+
+/** Resolver for `.context()`. The returned fields are merged into `ctx`. */
+export type ContextResolver<TCurrent, TExt extends Record<string, unknown>> = (
+	ctx: TCurrent,
+) => TExt | Promise<TExt>;
+
+/** Kinds of steps in an action's pipeline. */
+export type PipelineStepType =
+	| "auth"
+	| "roles"
+	| "authorize"
+	| "schema"
+	| "bindArgs"
+	| "outputSchema"
+	| "rateLimit"
+	| "audit"
+	| "csrf"
+	| "sanitize"
+	| "timeout"
+	| "idempotent"
+	| "concurrency"
+	| "dedupe"
+	| "cache"
+	| "use"
+	| "context"
+	| "skip"
+	| "name"
+	| "actionState"
+	| "hook";
+
+/** One step of an action's pipeline, as listed by `describe()`. */
+export interface StepDescription {
+	type: PipelineStepType;
+	/** Serializable summary of the step's configuration. Functions and stores are left out. */
+	config?: Record<string, unknown>;
+	/** Added by the guard's `enforce` option rather than chained on the action. */
+	enforced?: true;
+}
+
+/** Security manifest of a guarded action, returned by `describe()`. */
+export interface ActionManifest {
+	/** Steps in the order they run, including enforced steps. */
+	steps: StepDescription[];
+	/** Time limit in milliseconds, from `.timeout()` or the guard default. */
+	timeoutMs?: number;
+}
+
+/** Function returned by `.action()`. */
+export type GuardedAction<TData> = ((...args: unknown[]) => Promise<ActionResult<TData>>) & {
+	/**
+	 * List the steps protecting this action with their configuration, e.g. to assert
+	 * security posture in tests. Not enumerable.
+	 */
+	readonly describe: () => ActionManifest;
+};
+
+/**
+ * Guard returned by `createActionGuard`. Every builder step is available as an
+ * entry point; `TUser` is inferred from the configured auth provider.
+ */
+export interface ActionGuardInstance<TUser = unknown> extends ActionBuilder<unknown, TUser> {
+	/**
+	 * Remove cached results stored with any of the tags, e.g. from the `onSuccess`
+	 * hook of a mutation.
+	 */
+	invalidateTags: (tags: string[]) => Promise<void>;
+	/** Call and step metrics of every action of this guard. Render with `renderPrometheus()`. */
+	metrics: MetricsRegistry;
+	/**
+	 * Listen to security events of every action of this guard, e.g. to alert on repeated
+	 * `auth.failed` from one IP. Returns a function that unsubscribes.
+	 */
+	on: <E extends SecurityEventName>(event: E, listener: SecurityEventListener<E>) => () => void;
+}
+
+/** Input after piping a fragment: the fragment's schema input when it declares one. */
+type PipedInput<TInput, TFragmentInput> = unknown extends TFragmentInput ? TInput : TFragmentInput;
+
+/** Value the handler must return: the output schema's input type, or anything without one. */
+export type HandlerOutput<TOutputSchema> = TOutputSchema extends ZodSchema
+	? z.input<TOutputSchema>
+	: unknown;
+
+/** Data returned to the client: the output schema's parsed type, or the handler's return type. */
+export type ActionOutput<T, TOutputSchema> = TOutputSchema extends ZodSchema
+	? z.output<TOutputSchema>
+	: T;
+
+export interface ActionBuilder<
+	TInput = unknown,
+	TUser = unknown,
+	TCtx extends object = object,
+	TOutputSchema extends ZodSchema | undefined = undefined,
+> {
+	/** Resolve the user through the auth provider. Later steps see `ctx.user` as non-null. */
+	auth: () => ActionBuilder<TInput, TUser, TCtx & { user: TUser }, TOutputSchema>;
+	/**
+	 * Require at least one of the given roles, directly or through the role hierarchy.
+	 * Fails with `AUTH_FAILED` without a user and `FORBIDDEN` without a matching role.
+	 */
+	roles: (...roles: string[]) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	schema: <T extends ZodSchema>(schema: T) => ActionBuilder<z.infer<T>, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Declare that the action is used with `useActionState`, which calls it as
+	 * `(prevState, payload)`. The payload becomes the input whatever its type. Without
+	 * this step the signature is only recognised when the payload is `FormData`.
+	 */
+	actionState: () => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Validate leading arguments bound with `action.bind(null, ...)`, one schema per argument.
+	 * The remaining argument flows through `.schema()` as usual.
+	 */
+	bindArgsSchemas: <const T extends readonly ZodSchema[]>(
+		schemas: T,
+	) => ActionBuilder<TInput, TUser, TCtx & { bindArgs: InferBindArgs<T> }, TOutputSchema>;
+	/**
+	 * Validate the handler result before it is returned. Unknown keys are stripped by
+	 * object schemas; a mismatch fails with `OUTPUT_VALIDATION_ERROR`.
+	 */
+	outputSchema: <T extends ZodSchema>(schema: T) => ActionBuilder<TInput, TUser, TCtx, T>;
+	/**
+	 * Allow the call only when the policy passes. Place it after `.schema()` to check
+	 * the validated input. Denials fail with `FORBIDDEN`; the deciding policy name is
+	 * recorded in `ctx.metadata.authorization`.
+	 */
+	authorize: (
+		policy: PolicyLike<
+			PolicyArgs<
+				TInput,
+				ActionContext<TInput, TUser, TCtx>["user"],
+				ActionContext<TInput, TUser, TCtx>
+			>
+		>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	rateLimit: (config: RateLimitConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	audit: (config: AuditConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	csrf: () => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	sanitize: () => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Run the rest of the pipeline once per idempotency key. Repeats within the TTL get the
+	 * first successful result; a repeat while the first call runs fails with
+	 * `IDEMPOTENCY_IN_PROGRESS`. Keys are scoped to the action and the user, so chain
+	 * it after `.auth()`. Actions using a store other than the in-memory default need a
+	 * `.name()`.
+	 */
+	idempotent: (config?: IdempotencyConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Limit simultaneous executions of the rest of the pipeline per key (user, IP or custom).
+	 * Extra calls fail with `CONCURRENCY_LIMITED`, or wait for a slot when `wait` is set.
+	 */
+	concurrency: (config: ConcurrencyConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Share one execution of the rest of the pipeline between concurrent identical calls.
+	 * Place it after `.auth()` and `.schema()` so the key covers the user and validated input;
+	 * chaining it before `.auth()` throws.
+	 */
+	dedupe: (config?: DedupeConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Reuse successful results for the TTL. Entries are scoped per user unless `shared`
+	 * is set, and can be purged with `guard.invalidateTags()`. Chain it after `.auth()`:
+	 * a hit skips every later step, so chaining it before `.auth()` throws.
+	 */
+	cache: (config: CacheConfig) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Limit how long the call may run, e.g. "5s". On expiry `ctx.signal` is aborted and
+	 * the call fails with `TIMEOUT`. The last `.timeout()` wins over the guard default.
+	 */
+	timeout: (duration: string) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	use: (
+		middleware: Middleware<ActionContext<TInput, TUser, TCtx>>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	context: <TExt extends Record<string, unknown>>(
+		resolver: ContextResolver<ActionContext<TInput, TUser, TCtx>, TExt>,
+	) => ActionBuilder<TInput, TUser, TCtx & TExt, TOutputSchema>;
+	/** Run after the handler succeeds. `ctx` has every field added by earlier steps. */
+	onSuccess: (
+		hook: (
+			data: ActionOutput<unknown, TOutputSchema>,
+			info: HookInfo<ActionContext<TInput, TUser, TCtx>>,
+		) => void | Promise<void>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/** Run on unexpected errors, in addition to the guard-wide `onError`. */
+	onError: (
+		hook: NonNullable<LifecycleHooks["onError"]>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/** Run when a step rejects the call. `ctx` only has what ran before the rejection. */
+	onBlocked: (
+		hook: (
+			result: ActionFailure,
+			info: BlockedInfo<MiddlewareContext<TUser, unknown>>,
+		) => void | Promise<void>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/** Run once per call with the final result. */
+	onSettled: (
+		hook: (
+			result: ActionResult<ActionOutput<unknown, TOutputSchema>>,
+			info: HookInfo<MiddlewareContext<TUser, unknown>>,
+		) => void | Promise<void>,
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Name the action in metrics and in the keys of its stored results. Metrics default
+	 * to the audit action; keys default to an id unique within the process. Required for
+	 * `.idempotent()` and unnamed `.cache()` steps with a store other than the in-memory
+	 * default.
+	 */
+	name: (name: string) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Opt this action out of a step enforced by the guard config. The reason is required
+	 * and recorded in `ctx.metadata.skipped` and the audit entry.
+	 */
+	skip: (
+		step: SkippableStep,
+		options: { reason: string },
+	) => ActionBuilder<TInput, TUser, TCtx, TOutputSchema>;
+	/**
+	 * Append a reusable fragment: a builder from any guard, whose steps are copied after
+	 * this builder's steps, or a function that receives this builder and extends it.
+	 *
+	 * ```ts
+	 * export const adminAction = guard.auth().roles("admin").csrf();
+	 * const deleteUser = otherGuard.pipe(adminAction).schema(schema).action(handler);
+	 * ```
+	 */
+	pipe<
+		TFragmentInput,
+		TFragmentCtx extends object,
+		TFragmentOutputSchema extends ZodSchema | undefined,
+	>(
+		fragment: ActionBuilder<TFragmentInput, TUser, TFragmentCtx, TFragmentOutputSchema>,
+	): ActionBuilder<
+		PipedInput<TInput, TFragmentInput>,
+		TUser,
+		TCtx & TFragmentCtx,
+		TFragmentOutputSchema extends ZodSchema ? TFragmentOutputSchema : TOutputSchema
+	>;
+	pipe<TResult>(
+		fragment: (builder: ActionBuilder<TInput, TUser, TCtx, TOutputSchema>) => TResult,
+	): TResult;
+	action: <T extends HandlerOutput<TOutputSchema>>(
+		handler: (
+			params: ActionHandlerParams<TInput, ActionContext<TInput, TUser, TCtx>>,
+		) => Promise<T>,
+	) => GuardedAction<ActionOutput<T, TOutputSchema>>;
 }
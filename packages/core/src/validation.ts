@@ -0,0 +1,51 @@
+import type { ZodError } from "zod";
+
+export interface ValidationErrors {
+	/** Messages not tied to a single field, e.g. refinements on the whole object. */
+	formErrors: string[];
+	/** Messages keyed by field path, e.g. `email` or `address.lines[0]`. */
+	fieldErrors: Record<string, string[]>;
+}
+
+/** Turns a failed parse into the payload returned to the client. */
+export type ValidationErrorFormatter = (error: ZodError) => ValidationErrors;
+
+/**
+ * Format an issue path the way form fields are usually named:
+ * object keys joined with dots, array indexes in brackets.
+ */
+export function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+	let result = "";
+	for (const segment of path) {
+		if (typeof segment === "number") {
+			result += `[${segment}]`;
+		} else {
+			result += result ? `.${String(segment)}` : String(segment);
+		}
+	}
+	return result;
+}
+
+/**
+ * Default formatter: groups issue messages by field path.
+ * Issues without a path (object-level refinements) become form errors.
+ */
+export function formatValidationErrors(error: ZodError): ValidationErrors {
+	const formErrors: string[] = [];
+	// Collected in a Map so hostile keys like "__proto__" stay plain data
+	const fieldErrors = new Map<string, string[]>();
+
+	for (const issue of error.issues) {
+		const key = formatIssuePath(issue.path);
+		if (!key) {
+			formErrors.push(issue.message);
+			continue;
+		}
+
+		const messages = fieldErrors.get(key) ?? [];
+		messages.push(issue.message);
+		fieldErrors.set(key, messages);
+	}
+
+	return { formErrors, fieldErrors: Object.fromEntries(fieldErrors) };
+}
@@ -1,7 +1,19 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from "vitest";
 import { z } from "zod";
 import { customAuth } from "../src/auth/custom";
 import { createActionGuard } from "../src/builder";
+import { type CacheStore, MemoryCacheStore } from "../src/cache";
+import { ActionError } from "../src/errors";
+import { type IdempotencyStore, MemoryIdempotencyStore } from "../src/idempotency";
+import { MetricsRegistry, renderPrometheus } from "../src/metrics";
+import { and, definePolicy, not, or } from "../src/policy";
+import { deferred } from "./helpers";
 
 describe("Builder Integration Pipeline", () => {
 	describe("Full pipeline: auth -> schema -> rateLimit -> sanitize -> audit -> action", () => {
@@ -199,8 +211,8 @@ describe("Builder Integration Pipeline", () => {
 				return { ok: true };
 			});
 
-			// Builder creates empty Headers internally, so CSRF always fails
-			// when no mechanism to inject request headers exists
+			// No headers source configured and no Next.js request scope, so the
+			// request carries neither the CSRF header nor the cookie
 			const result = await myAction("input");
 
 			expect(result.success).toBe(false);
@@ -229,6 +241,23 @@ describe("Builder Integration Pipeline", () => {
 			expect(handlerSpy).not.toHaveBeenCalled();
 		});
 
+		it("should pass when the request carries matching header and cookie tokens", async () => {
+			const guard = createActionGuard({
+				headers: () => ({
+					"x-actionguard-csrf": "token-123",
+					cookie: "actionguard-csrf=token-123",
+				}),
+			});
+
+			const myAction = guard.csrf().action(async () => {
+				return { ok: true };
+			});
+
+			const result = await myAction("test");
+
+			expect(result).toEqual({ success: true, data: { ok: true } });
+		});
+
 		it("should use custom CSRF config from guard configuration", async () => {
 			const guard = createActionGuard({
 				csrf: {
@@ -252,6 +281,1192 @@ describe("Builder Integration Pipeline", () => {
 		});
 	});
 
+	describe("RBAC integration", () => {
+		it("should allow users with a matching or inherited role", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ id: "user-1", role: "owner" })),
+			});
+
+			const myAction = guard
+				.auth()
+				.roles("admin")
+				.action(async ({ ctx }) => ctx.user.id);
+
+			expect(await myAction("input")).toEqual({ success: true, data: "user-1" });
+		});
+
+		it("should reject users without the role with FORBIDDEN", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({
+					id: "user-1",
+					role: "authenticated",
+					app_metadata: { roles: ["member"] },
+				})),
+			});
+			const handlerSpy = vi.fn();
+
+			const result = await guard.auth().roles("admin", "billing").action(handlerSpy)("input");
+
+			expect(result).toEqual({ success: false, error: "Forbidden", code: "FORBIDDEN" });
+			expect(handlerSpy).not.toHaveBeenCalled();
+		});
+
+		it("should reject with AUTH_FAILED when no user was resolved", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+
+			const result = await guard.roles("member").action(async () => "ok")("input");
+
+			expect(result).toEqual({ success: false, error: "Unauthorized", code: "AUTH_FAILED" });
+		});
+
+		it("should use the configured extractor and hierarchy", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ id: "user-1", permissions: ["publisher"] })),
+				rbac: {
+					getRoles: (user) => user.permissions,
+					hierarchy: { publisher: ["editor"] },
+				},
+			});
+
+			const publish = guard
+				.auth()
+				.roles("editor")
+				.action(async () => "published");
+			const administer = guard
+				.auth()
+				.roles("admin")
+				.action(async () => "administered");
+
+			expect(await publish("input")).toEqual({ success: true, data: "published" });
+			expect(await administer("input")).toMatchObject({ success: false, code: "FORBIDDEN" });
+		});
+	});
+
+	describe("Authorization policies", () => {
+		const member = { id: "user-1", orgId: "org-1" };
+
+		it("should pass the validated input and user to the policy", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => member),
+			});
+
+			const updateInvoice = guard
+				.auth()
+				.schema(z.object({ orgId: z.string().trim() }))
+				.authorize(
+					and(
+						async function sameOrg({ input, user }) {
+							expectTypeOf(input).toEqualTypeOf<{ orgId: string }>();
+							expectTypeOf(user).toEqualTypeOf<{ id: string; orgId: string }>();
+							return input.orgId === user.orgId;
+						},
+						({ ctx }) => ctx.headers !== undefined,
+					),
+				)
+				.action(async ({ ctx }) => ctx.metadata.authorization);
+
+			expect(await updateInvoice({ orgId: " org-1 " })).toEqual({
+				success: true,
+				data: { allowed: true, policy: "and(sameOrg, anonymous)" },
+			});
+			expect(await updateInvoice({ orgId: "org-2" })).toEqual({
+				success: false,
+				error: "Forbidden",
+				code: "FORBIDDEN",
+			});
+		});
+
+		it("should expose the denying policy to onBlocked", async () => {
+			const onBlocked = vi.fn();
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => member),
+				onBlocked,
+			});
+			const isOwner = definePolicy("isOwner", () => false);
+
+			await guard
+				.auth()
+				.authorize(
+					or(
+						isOwner,
+						not(() => true),
+					),
+				)
+				.action(async () => "ok")("input");
+
+			const [, info] = onBlocked.mock.calls[0];
+			expect(info.step).toBe("authorize");
+			expect(info.ctx.metadata.authorization).toEqual({
+				allowed: false,
+				policy: "or(isOwner, not(anonymous))",
+			});
+		});
+
+		it("should record the deciding policy in the audit entry", async () => {
+			const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => member),
+			});
+
+			await guard
+				.auth()
+				.authorize(definePolicy("canExport", () => true))
+				.audit({ action: "EXPORT", resource: "invoices" })
+				.action(async () => "ok")("input");
+
+			expect(JSON.parse(consoleSpy.mock.calls[0][0] as string)).toMatchObject({
+				action: "EXPORT",
+				policy: "canExport",
+			});
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("Idempotency integration", () => {
+		it("should run the handler once and replay the first result", async () => {
+			let key = "key-1";
+			const guard = createActionGuard({ headers: () => ({ "idempotency-key": key }) });
+			let created = 0;
+
+			const createInvoice = guard.idempotent().action(async ({ ctx }) => ({
+				invoice: ++created,
+				replayed: (ctx.metadata.idempotency as { replayed: boolean }).replayed,
+			}));
+
+			const first = await createInvoice({ amount: 10 });
+			const second = await createInvoice({ amount: 10 });
+			key = "key-2";
+			const third = await createInvoice({ amount: 10 });
+
+			expect(first).toEqual({ success: true, data: { invoice: 1, replayed: false } });
+			expect(second).toBe(first);
+			expect(third).toEqual({ success: true, data: { invoice: 2, replayed: false } });
+		});
+
+		it("should reject a duplicate while the first call is in flight", async () => {
+			const onBlocked = vi.fn();
+			const guard = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				onBlocked,
+			});
+			const gate = deferred();
+
+			const createInvoice = guard.idempotent().action(async () => {
+				await gate.promise;
+				return "created";
+			});
+
+			const first = createInvoice(undefined);
+			const duplicate = await createInvoice(undefined);
+			gate.resolve();
+
+			expect(duplicate).toEqual({
+				success: false,
+				error: "A request with this idempotency key is already in progress",
+				code: "IDEMPOTENCY_IN_PROGRESS",
+			});
+			expect(onBlocked.mock.calls[0][1].step).toBe("idempotent");
+			expect(await first).toEqual({ success: true, data: "created" });
+		});
+
+		it("should free the key when the call fails", async () => {
+			const guard = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				onError: () => {},
+			});
+			const handler = vi
+				.fn()
+				.mockRejectedValueOnce(new Error("db down"))
+				.mockResolvedValueOnce("created");
+
+			const createInvoice = guard.idempotent().action(handler);
+
+			expect(await createInvoice(undefined)).toMatchObject({ code: "INTERNAL_ERROR" });
+			expect(await createInvoice(undefined)).toEqual({ success: true, data: "created" });
+			expect(handler).toHaveBeenCalledTimes(2);
+		});
+
+		it("should read the key from a validated input field and scope it per user", async () => {
+			let userId = "user-1";
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ id: userId })),
+			});
+			const handler = vi.fn(async ({ ctx }) => ctx.user.id);
+
+			const submit = guard
+				.auth()
+				.schema(z.object({ requestId: z.string() }))
+				.idempotent({ field: "requestId" })
+				.action(handler);
+
+			await submit({ requestId: "r-1" });
+			await submit({ requestId: "r-1" });
+			userId = "user-2";
+			const otherUser = await submit({ requestId: "r-1" });
+
+			expect(handler).toHaveBeenCalledTimes(2);
+			expect(otherUser).toEqual({ success: true, data: "user-2" });
+		});
+
+		it("should run normally without a key", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+			const handler = vi.fn().mockResolvedValue("ok");
+
+			const myAction = guard.idempotent().action(handler);
+			await myAction(undefined);
+			await myAction(undefined);
+
+			expect(handler).toHaveBeenCalledTimes(2);
+		});
+
+		it("should use the guard-wide store", async () => {
+			const store = new MemoryIdempotencyStore();
+			const beginSpy = vi.spyOn(store, "begin");
+			const guard = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				idempotency: { store, ttl: "1h" },
+			});
+
+			await guard
+				.idempotent()
+				.name("createInvoice")
+				.action(async () => "ok")(undefined);
+
+			expect(beginSpy).toHaveBeenCalledWith("createInvoice:anonymous:key-1", 3_600_000);
+		});
+
+		it("should reject .idempotent() before .auth()", () => {
+			const guard = createActionGuard({ auth: customAuth(async () => ({ id: "user-1" })) });
+
+			expect(() =>
+				guard
+					.idempotent()
+					.auth()
+					.action(async () => "ok"),
+			).toThrow(".idempotent() must come after .auth()");
+			expect(() =>
+				guard
+					.auth()
+					.idempotent()
+					.action(async () => "ok"),
+			).not.toThrow();
+		});
+
+		it("should require a name with a store other than the in-memory default", async () => {
+			const memory = new MemoryIdempotencyStore();
+			const store: IdempotencyStore = {
+				begin: (key, ttlMs) => memory.begin(key, ttlMs),
+				complete: (key, result, ttlMs) => memory.complete(key, result, ttlMs),
+				release: (key) => memory.release(key),
+			};
+			const guard = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				idempotency: { store },
+			});
+
+			expect(() => guard.idempotent().action(async () => "ok")).toThrow(
+				".idempotent() with a shared store requires .name() on the action",
+			);
+			const named = guard
+				.idempotent()
+				.name("createInvoice")
+				.action(async () => "ok");
+			expect(await named(undefined)).toEqual({ success: true, data: "ok" });
+		});
+
+		it("should keep keys of different actions apart", async () => {
+			const store = new MemoryIdempotencyStore();
+			const guard = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				idempotency: { store },
+			});
+			const preset = guard.idempotent();
+
+			const createInvoice = preset.action(async () => "invoice");
+			const createRefund = createActionGuard({
+				headers: () => ({ "idempotency-key": "key-1" }),
+				idempotency: { store },
+			})
+				.idempotent()
+				.action(async () => "refund");
+			const sendReminder = preset.action(async () => "reminder");
+
+			expect(await createInvoice(undefined)).toEqual({ success: true, data: "invoice" });
+			expect(await createRefund(undefined)).toEqual({ success: true, data: "refund" });
+			expect(await sendReminder(undefined)).toEqual({ success: true, data: "reminder" });
+		});
+	});
+
+	describe("Concurrency integration", () => {
+		it("should reject calls over the limit with CONCURRENCY_LIMITED", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ id: "user-1" })),
+			});
+			const gate = deferred();
+
+			const exportReport = guard
+				.auth()
+				.concurrency({ max: 1 })
+				.action(async () => {
+					await gate.promise;
+					return "exported";
+				});
+
+			const first = exportReport(undefined);
+			const second = await exportReport(undefined);
+			gate.resolve();
+
+			expect(second).toEqual({
+				success: false,
+				error: "Too many concurrent requests",
+				code: "CONCURRENCY_LIMITED",
+			});
+			expect(await first).toEqual({ success: true, data: "exported" });
+			expect(await exportReport(undefined)).toEqual({ success: true, data: "exported" });
+		});
+
+		it("should limit each user separately", async () => {
+			let userId = "user-1";
+			// Headers are read when the call starts, so each call keeps its own user
+			const guard = createActionGuard({
+				headers: () => ({ "x-user-id": userId }),
+				auth: customAuth(async (headers) => ({ id: headers.get("x-user-id") })),
+			});
+			const gate = deferred();
+
+			const exportReport = guard
+				.auth()
+				.concurrency({ max: 1 })
+				.action(async () => {
+					await gate.promise;
+					return "exported";
+				});
+
+			const first = exportReport(undefined);
+			userId = "user-2";
+			const second = exportReport(undefined);
+			gate.resolve();
+
+			expect(await first).toMatchObject({ success: true });
+			expect(await second).toMatchObject({ success: true });
+		});
+
+		it("should queue calls when wait is set", async () => {
+			const guard = createActionGuard({ headers: () => ({ "x-forwarded-for": "10.0.0.1" }) });
+			const running: number[] = [];
+			let active = 0;
+
+			const exportReport = guard.concurrency({ max: 1, wait: "5s" }).action(async () => {
+				running.push(++active);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active--;
+				return "exported";
+			});
+
+			const results = await Promise.all([exportReport(1), exportReport(2), exportReport(3)]);
+
+			expect(results.every((result) => result.success)).toBe(true);
+			expect(running).toEqual([1, 1, 1]);
+		});
+
+		it("should free the slot when the handler throws", async () => {
+			const guard = createActionGuard({ headers: () => ({}), onError: () => {} });
+			const handler = vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue("ok");
+
+			const myAction = guard.concurrency({ max: 1, key: () => "shared" }).action(handler);
+
+			expect(await myAction(undefined)).toMatchObject({ code: "INTERNAL_ERROR" });
+			expect(await myAction(undefined)).toEqual({ success: true, data: "ok" });
+		});
+	});
+
+	describe("Dedupe integration", () => {
+		it("should share one handler execution between identical concurrent calls", async () => {
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ id: "user-1" })),
+			});
+			const onSettled = vi.fn();
+			const handler = vi.fn(async ({ input }: { input: { range: string } }) => {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				return { range: input.range, total: 42 };
+			});
+
+			const getStats = guard
+				.auth()
+				.schema(z.object({ range: z.string(), page: z.number().default(1) }))
+				.dedupe()
+				.onSettled(onSettled)
+				.action(handler);
+
+			const results = await Promise.all([
+				getStats({ range: "7d" }),
+				getStats({ page: 1, range: "7d" }),
+				getStats({ range: "30d" }),
+			]);
+
+			expect(handler).toHaveBeenCalledTimes(2);
+			expect(results[0]).toEqual({ success: true, data: { range: "7d", total: 42 } });
+			expect(results[1]).toBe(results[0]);
+			expect(results[2]).toEqual({ success: true, data: { range: "30d", total: 42 } });
+			expect(onSettled.mock.calls.map(([, { ctx }]) => ctx.metadata.dedupe)).toEqual([
+				{ joined: false, hits: 1 },
+				{ joined: true, hits: 1 },
+				{ joined: false, hits: 0 },
+			]);
+		});
+
+		it("should not share executions between users", async () => {
+			let userId = "user-1";
+			const guard = createActionGuard({
+				headers: () => ({ "x-user-id": userId }),
+				auth: customAuth(async (headers) => ({ id: headers.get("x-user-id") })),
+			});
+			const handler = vi.fn(async ({ ctx }) => ctx.user.id);
+
+			const whoAmI = guard.auth().dedupe().action(handler);
+
+			const first = whoAmI(undefined);
+			userId = "user-2";
+			const second = whoAmI(undefined);
+
+			expect(await first).toEqual({ success: true, data: "user-1" });
+			expect(await second).toEqual({ success: true, data: "user-2" });
+			expect(handler).toHaveBeenCalledTimes(2);
+		});
+
+		it("should reject .dedupe() before .auth()", () => {
+			const guard = createActionGuard({ auth: customAuth(async () => ({ id: "user-1" })) });
+
+			expect(() =>
+				guard
+					.dedupe()
+					.auth()
+					.action(async () => "ok"),
+			).toThrow(".dedupe() must come after .auth()");
+		});
+
+		it("should not share executions between actions built from one preset", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+			const preset = guard.dedupe();
+
+			const getA = preset.action(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				return "A";
+			});
+			const getB = preset.action(async () => "B");
+
+			const [a, b] = await Promise.all([getA({ id: 1 }), getB({ id: 1 })]);
+
+			expect(a).toEqual({ success: true, data: "A" });
+			expect(b).toEqual({ success: true, data: "B" });
+		});
+
+		it("should use a custom key", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+			const handler = vi.fn(async () => "shared");
+
+			const myAction = guard.dedupe({ key: () => "everyone" }).action(handler);
+			await Promise.all([myAction(1), myAction(2)]);
+
+			expect(handler).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("Cache integration", () => {
+		function createUserGuard() {
+			let userId = "user-1";
+			const guard = createActionGuard({
+				headers: () => ({ "x-user-id": userId }),
+				auth: customAuth(async (headers) => ({ id: headers.get("x-user-id") as string })),
+			});
+			return {
+				guard,
+				setUser: (id: string) => {
+					userId = id;
+				},
+			};
+		}
+
+		it("should reuse successful results per user and input", async () => {
+			const { guard, setUser } = createUserGuard();
+			const handler = vi.fn(async ({ input, ctx }) => ({ page: input.page, user: ctx.user.id }));
+
+			const listInvoices = guard
+				.auth()
+				.schema(z.object({ page: z.number() }))
+				.cache({ ttl: "30s" })
+				.action(handler);
+
+			const first = await listInvoices({ page: 1 });
+			const repeat = await listInvoices({ page: 1 });
+			await listInvoices({ page: 2 });
+			setUser("user-2");
+			const otherUser = await listInvoices({ page: 1 });
+
+			expect(repeat).toEqual(first);
+			expect(otherUser).toEqual({ success: true, data: { page: 1, user: "user-2" } });
+			expect(handler).toHaveBeenCalledTimes(3);
+		});
+
+		it("should record cache hits in ctx.metadata", async () => {
+			const { guard } = createUserGuard();
+			const onSettled = vi.fn();
+
+			const myAction = guard
+				.auth()
+				.cache({ ttl: "30s" })
+				.onSettled(onSettled)
+				.action(async () => "ok");
+			await myAction("x");
+			await myAction("x");
+
+			expect(onSettled.mock.calls.map(([, { ctx }]) => ctx.metadata.cache)).toEqual([
+				{ hit: false },
+				{ hit: true },
+			]);
+		});
+
+		it("should not cache failures", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+			const handler = vi
+				.fn()
+				.mockRejectedValueOnce(new ActionError("Try again"))
+				.mockResolvedValue("ok");
+
+			const myAction = guard.cache({ ttl: "30s" }).action(handler);
+
+			expect(await myAction("x")).toMatchObject({ success: false });
+			expect(await myAction("x")).toEqual({ success: true, data: "ok" });
+			expect(await myAction("x")).toEqual({ success: true, data: "ok" });
+			expect(handler).toHaveBeenCalledTimes(2);
+		});
+
+		it("should purge tagged entries after a mutation", async () => {
+			const { guard } = createUserGuard();
+			let total = 100;
+
+			const getInvoice = guard
+				.auth()
+				.schema(z.object({ id: z.string() }))
+				.cache({
+					ttl: "1h",
+					tags: (ctx) => ["invoices", `invoice:${(ctx.input as { id: string }).id}`],
+				})
+				.action(async ({ input }) => ({ id: input.id, total }));
+			const listCustomers = guard
+				.auth()
+				.cache({ ttl: "1h", tags: ["customers"] })
+				.action(async () => ({ total }));
+			const updateInvoice = guard
+				.auth()
+				.schema(z.object({ id: z.string(), total: z.number() }))
+				.onSuccess((_data, { ctx }) => guard.invalidateTags([`invoice:${ctx.input.id}`]))
+				.action(async ({ input }) => {
+					total = input.total;
+					return input;
+				});
+
+			await getInvoice({ id: "inv-1" });
+			await listCustomers(undefined);
+			await updateInvoice({ id: "inv-1", total: 250 });
+
+			expect(await getInvoice({ id: "inv-1" })).toEqual({
+				success: true,
+				data: { id: "inv-1", total: 250 },
+			});
+			expect(await listCustomers(undefined)).toEqual({ success: true, data: { total: 100 } });
+		});
+
+		it("should share entries across users when shared is set", async () => {
+			const { guard, setUser } = createUserGuard();
+			const handler = vi.fn(async () => ["EUR", "USD"]);
+
+			const listCurrencies = guard.auth().cache({ ttl: "1h", shared: true }).action(handler);
+
+			await listCurrencies(undefined);
+			setUser("user-2");
+			await listCurrencies(undefined);
+
+			expect(handler).toHaveBeenCalledOnce();
+		});
+
+		it("should keep entries of different actions apart", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+
+			const first = guard.cache({ ttl: "1h" }).action(async () => "first");
+			const second = guard.cache({ ttl: "1h" }).action(async () => "second");
+
+			await first(undefined);
+			expect(await second(undefined)).toEqual({ success: true, data: "second" });
+		});
+
+		it("should keep entries of users without an id apart", async () => {
+			let email = "alice@example.com";
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ email })),
+			});
+			const handler = vi.fn(async ({ ctx }) => ctx.user.email);
+
+			const getProfile = guard.auth().cache({ ttl: "1h" }).action(handler);
+
+			expect(await getProfile(undefined)).toEqual({ success: true, data: "alice@example.com" });
+			email = "bob@example.com";
+			expect(await getProfile(undefined)).toEqual({ success: true, data: "bob@example.com" });
+			email = "alice@example.com";
+			await getProfile(undefined);
+			expect(handler).toHaveBeenCalledTimes(2);
+		});
+
+		it("should scope entries with the guard's scope function", async () => {
+			const store = new MemoryCacheStore();
+			const setSpy = vi.spyOn(store, "set");
+			const guard = createActionGuard({
+				headers: () => ({}),
+				auth: customAuth(async () => ({ email: "alice@example.com" })),
+				scope: (user) => user.email,
+				cache: { store },
+			});
+
+			await guard
+				.auth()
+				.cache({ ttl: "1m" })
+				.name("getProfile")
+				.action(async () => "ok")(undefined);
+
+			expect(setSpy).toHaveBeenCalledWith(
+				"getProfile:user:alice@example.com:undefined",
+				expect.anything(),
+				expect.anything(),
+			);
+		});
+
+		it("should reject .cache() before .auth()", () => {
+			const { guard } = createUserGuard();
+
+			expect(() =>
+				guard
+					.cache({ ttl: "30s" })
+					.auth()
+					.action(async () => "ok"),
+			).toThrow(".cache() must come after .auth()");
+		});
+
+		it("should require a name with a store other than the in-memory default", async () => {
+			const memory = new MemoryCacheStore();
+			const store: CacheStore = {
+				get: (key) => memory.get(key),
+				set: (key, result, options) => memory.set(key, result, options),
+				invalidateTags: (tags) => memory.invalidateTags(tags),
+			};
+			const guard = createActionGuard({ headers: () => ({}), cache: { store } });
+
+			expect(() => guard.cache({ ttl: "30s" }).action(async () => "ok")).toThrow(
+				".cache() with a shared store requires a name on the step or the action",
+			);
+			const namedStep = guard.cache({ ttl: "30s", name: "rates" }).action(async () => "ok");
+			const namedAction = guard
+				.cache({ ttl: "30s" })
+				.name("listRates")
+				.action(async () => "ok");
+			expect(await namedStep(undefined)).toEqual({ success: true, data: "ok" });
+			expect(await namedAction(undefined)).toEqual({ success: true, data: "ok" });
+		});
+
+		it("should keep entries of actions built from one preset apart", async () => {
+			const guard = createActionGuard({ headers: () => ({}) });
+			const preset = guard.cache({ ttl: "30s" });
+
+			const first = preset.action(async () => "A");
+			const second = preset.action(async () => "B");
+
+			expect(await first({ id: 1 })).toEqual({ success: true, data: "A" });
+			expect(await second({ id: 1 })).toEqual({ success: true, data: "B" });
+		});
+
+		it("should keep entries of different guards sharing a store apart", async () => {
+			const store = new MemoryCacheStore();
+			const first = createActionGuard({ headers: () => ({}), cache: { store } })
+				.cache({ ttl: "30s" })
+				.action(async () => "A");
+			const second = createActionGuard({ headers: () => ({}), cache: { store } })
+				.cache({ ttl: "30s" })
+				.action(async () => "B");
+
+			await first(undefined);
+			expect(await second(undefined)).toEqual({ success: true, data: "B" });
+		});
+
+		it("should default the namespace to the action name", async () => {
+			const store = new MemoryCacheStore();
+			const setSpy = vi.spyOn(store, "set");
+			const guard = createActionGuard({ headers: () => ({}), cache: { store } });
+
+			await guard
+				.cache({ ttl: "1m" })
+				.name("listRates")
+				.action(async () => 1)("EUR");
+
+			expect(setSpy).toHaveBeenCalledWith('listRates:anonymous:"EUR"', expect.anything(), {
+				ttlMs: 60_000,
+				tags: [],
+			});
+		});
+
+		it("should use the configured store", async () => {
+			const store = new MemoryCacheStore();
+			const setSpy = vi.spyOn(store, "set");
+			const guard = createActionGuard({ headers: () => ({}), cache: { store } });
+
+			await guard.cache({ ttl: "1m", name: "rates", tags: ["fx"] }).action(async () => 1)("EUR");
+
+			expect(setSpy).toHaveBeenCalledWith(
+				'rates:anonymous:"EUR"',
+				{ success: true, data: 1 },
+				{ ttlMs: 60_000, tags: ["fx"] },
+			);
+		});
+	});
+
+	describe("Enforced steps", () => {
+		let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+		beforeEach(() => {
+			consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		});
+
+		afterEach(() => {
+			consoleSpy.mockRestore();
+		});
+
+		const auditEntries = () =>
+			consoleSpy.mock.calls.map(([line]: unknown[]) => JSON.parse(line as string));
+
+		it("should add enforced CSRF to every action", async () => {
+			const guard = createActionGuard({ enforce: { csrf: true } });
+			const handler = vi.fn().mockResolvedValue({ ok: true });
+
+			const result = await guard.action(handler)("input");
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.code).toBe("CSRF_FAILED");
+			}
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it("should run enforced CSRF before the action's own steps", async () => {
+			const authResolver = vi.fn(async () => ({ id: "user-1" }));
+			const guard = createActionGuard({
+				auth: customAuth(authResolver),
+				enforce: { csrf: true },
+			});
+
+			const result = await guard.auth().action(async () => "ok")("input");
+
+			expect(result.success).toBe(false);
+			expect(authResolver).not.toHaveBeenCalled();
+		});
+
+		it("should sanitize the validated input before the handler", async () => {
+			const guard = createActionGuard({ enforce: { sanitize: true } });
+
+			const result = await guard
+				.schema(z.object({ comment: z.string().max(20) }))
+				.action(async ({ input }) => input.comment)({ comment: "<b>hi</b>" });
+
+			expect(result).toEqual({ success: true, data: "&lt;b&gt;hi&lt;/b&gt;" });
+		});
+
+		it("should audit actions with the enforced config", async () => {
+			const guard = createActionGuard({
+				enforce: { audit: { action: "ACTION", resource: "app" } },
+			});
+
+			await guard.action(async () => "ok")();
+
+			expect(auditEntries()).toEqual([
+				expect.objectContaining({ action: "ACTION", resource: "app", success: true }),
+			]);
+		});
+
+		it("should keep the action's own step instead of adding the enforced one", async () => {
+			const guard = createActionGuard({
+				enforce: { audit: { action: "ACTION", resource: "app" } },
+			});
+
+			await guard.audit({ action: "DELETE_POST", resource: "posts" }).action(async () => "ok")();
+
+			expect(auditEntries()).toEqual([
+				expect.objectContaining({ action: "DELETE_POST", resource: "posts" }),
+			]);
+		});
+
+		it("should not add a step the action opts out of", async () => {
+			const guard = createActionGuard({ enforce: { csrf: true } });
+
+			const result = await guard
+				.skip("csrf", { reason: "Called by a signed webhook" })
+				.action(async () => "ok")();
+
+			expect(result).toEqual({ success: true, data: "ok" });
+		});
+
+		it("should record skipped steps in metadata and the audit entry", async () => {
+			const guard = createActionGuard({
+				enforce: { csrf: true, audit: { action: "ACTION", resource: "app" } },
+			});
+
+			const result = await guard
+				.skip("csrf", { reason: "Called by a signed webhook" })
+				.action(async ({ ctx }) => ctx.metadata.skipped)();
+
+			const skipped = [{ step: "csrf", reason: "Called by a signed webhook" }];
+			expect(result).toEqual({ success: true, data: skipped });
+			expect(auditEntries()).toEqual([expect.objectContaining({ skipped })]);
+		});
+
+		it("should require a reason to skip a step", () => {
+			const guard = createActionGuard({ enforce: { csrf: true } });
+
+			expect(() => guard.skip("csrf", { reason: " " })).toThrow('skip("csrf") requires a reason');
+		});
+
+		it("should carry skips in pipe() fragments", async () => {
+			const guard = createActionGuard({ enforce: { csrf: true } });
+			const webhook = guard.skip("csrf", { reason: "Signed webhook" });
+
+			const result = await guard.pipe(webhook).action(async () => "ok")();
+
+			expect(result).toEqual({ success: true, data: "ok" });
+		});
+	});
+
+	describe("Tracing integration", () => {
+		const exporter = new InMemorySpanExporter();
+		const tracer = new BasicTracerProvider({
+			spanProcessors: [new SimpleSpanProcessor(exporter)],
+		}).getTracer("test");
+
+		beforeEach(() => {
+			exporter.reset();
+			vi.spyOn(console, "log").mockImplementation(() => {});
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("should open an action span with a child span per step and the handler", async () => {
+			const guard = createActionGuard({
+				auth: customAuth(async () => ({ id: "user-1" })),
+				tracer,
+			});
+
+			const result = await guard
+				.auth()
+				.schema(z.object({ title: z.string() }))
+				.rateLimit({ maxRequests: 5, window: "1m" })
+				.audit({ action: "CREATE_POST", resource: "posts" })
+				.onSuccess(() => {})
+				.action(async ({ input }) => input.title)({ title: "Hello" });
+
+			expect(result).toEqual({ success: true, data: "Hello" });
+			const spans = exporter.getFinishedSpans();
+			const action = spans.find((span) => span.name === "actionguard.action");
+			expect(spans.map((span) => span.name)).toEqual([
+				"actionguard.auth",
+				"actionguard.schema",
+				"actionguard.rateLimit",
+				"actionguard.audit",
+				"actionguard.handler",
+				"actionguard.action",
+			]);
+			for (const span of spans.filter((span) => span !== action)) {
+				expect(span.parentSpanContext?.spanId).toBe(action?.spanContext().spanId);
+			}
+			expect(action?.attributes).toEqual({
+				"actionguard.audit.action": "CREATE_POST",
+				"actionguard.audit.resource": "posts",
+				"actionguard.success": true,
+			});
+			expect(spans[2].attributes["actionguard.rate_limit.remaining"]).toBe(4);
+		});
+
+		it("should record the rejecting step and code", async () => {
+			const guard = createActionGuard({ auth: customAuth(async () => null), tracer });
+
+			await guard.auth().action(async () => "ok")();
+
+			const spans = exporter.getFinishedSpans();
+			expect(spans.map((span) => [span.name, span.attributes["actionguard.code"]])).toEqual([
+				["actionguard.auth", "AUTH_FAILED"],
+				["actionguard.action", "AUTH_FAILED"],
+			]);
+		});
+
+		it("should mark handler crashes as span errors", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			const guard = createActionGuard({ tracer });
+
+			await guard.action(async () => {
+				throw new Error("db down");
+			})();
+
+			const [handler, action] = exporter.getFinishedSpans();
+			expect(handler.status.code).toBe(SpanStatusCode.ERROR);
+			expect(action.attributes["actionguard.code"]).toBe("INTERNAL_ERROR");
+			expect(action.status.code).toBe(SpanStatusCode.ERROR);
+		});
+
+		it("should not create spans without a tracer", async () => {
+			const result = await createActionGuard()
+				.schema(z.string())
+				.action(async ({ input }) => input)("x");
+
+			expect(result).toEqual({ success: true, data: "x" });
+			expect(exporter.getFinishedSpans()).toHaveLength(0);
+		});
+	});
+
+	describe("Metrics integration", () => {
+		it("should count calls by action and outcome code", async () => {
+			const guard = createActionGuard({ auth: customAuth(async () => null) });
+			const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+			const publicAction = guard
+				.audit({ action: "LIST_POSTS", resource: "posts" })
+				.action(async () => []);
+			const privateAction = guard
+				.name("deletePost")
+				.auth()
+				.action(async () => "deleted");
+
+			await publicAction();
+			await publicAction();
+			await privateAction();
+			consoleSpy.mockRestore();
+
+			const [invocations] = guard.metrics.collect();
+			expect(invocations.samples).toEqual([
+				{ labels: { action: "LIST_POSTS", resource: "posts", code: "OK" }, value: 2 },
+				{ labels: { action: "deletePost", code: "AUTH_FAILED" }, value: 1 },
+			]);
+		});
+
+		it("should record latency for each step and the handler", async () => {
+			const guard = createActionGuard();
+
+			await guard
+				.schema(z.string())
+				.sanitize()
+				.action(async ({ input }) => input)("x");
+
+			const [, , steps] = guard.metrics.collect();
+			expect(steps.samples.map((sample) => sample.labels.step)).toEqual([
+				"schema",
+				"sanitize",
+				"handler",
+			]);
+		});
+
+		it("should share a registry between guards", async () => {
+			const metrics = new MetricsRegistry();
+			const first = createActionGuard({ metrics });
+			const second = createActionGuard({ metrics });
+
+			await first.name("a").action(async () => 1)();
+			await second.name("b").action(async () => 2)();
+
+			expect(first.metrics).toBe(metrics);
+			expect(renderPrometheus(second.metrics)).toContain(
+				'actionguard_invocations_total{action="a",code="OK"} 1',
+			);
+			expect(renderPrometheus(metrics)).toContain(
+				'actionguard_invocations_total{action="b",code="OK"} 1',
+			);
+		});
+	});
+
+	describe("Security events", () => {
+		it("should emit auth.failed with the caller details", async () => {
+			const guard = createActionGuard({
+				auth: customAuth(async () => null),
+				headers: () => ({ "x-forwarded-for": "203.0.113.7" }),
+			});
+			const listener = vi.fn();
+			guard.on("auth.failed", listener);
+
+			await guard
+				.auth()
+				.audit({ action: "DELETE_POST", resource: "posts" })
+				.action(async () => "ok")();
+
+			expect(listener).toHaveBeenCalledOnce();
+			expect(listener.mock.calls[0][0]).toMatchObject({
+				action: "DELETE_POST",
+				resource: "posts",
+				userId: null,
+				ip: "203.0.113.7",
+				key: "ip:203.0.113.7",
+				step: "auth",
+				result: { code: "AUTH_FAILED" },
+			});
+		});
+
+		it("should emit rateLimit.exceeded with the rate-limit key and config", async () => {
+			const guard = createActionGuard({ auth: customAuth(async () => ({ id: "user-1" })) });
+			const listener = vi.fn();
+			guard.on("rateLimit.exceeded", listener);
+			const rateLimit = { maxRequests: 1, window: "1m", identifier: () => "tenant:acme" };
+
+			const myAction = guard
+				.auth()
+				.rateLimit(rateLimit)
+				.action(async () => "ok");
+			await myAction();
+			await myAction();
+
+			expect(listener).toHaveBeenCalledOnce();
+			expect(listener.mock.calls[0][0]).toMatchObject({
+				userId: "user-1",
+				key: "tenant:acme",
+				step: "rateLimit",
+				config: rateLimit,
+			});
+		});
+
+		it("should emit csrf.failed with the guard CSRF config", async () => {
+			const csrf = { headerName: "x-token" };
+			const guard = createActionGuard({ csrf });
+			const listener = vi.fn();
+			guard.on("csrf.failed", listener);
+
+			await guard.csrf().action(async () => "ok")();
+
+			expect(listener.mock.calls[0][0]).toMatchObject({ step: "csrf", config: csrf });
+		});
+
+		it("should emit validation.failed with the validation errors", async () => {
+			const guard = createActionGuard();
+			const listener = vi.fn();
+			guard.on("validation.failed", listener);
+
+			await guard.schema(z.object({ email: z.string().email() })).action(async () => "ok")({
+				email: "nope",
+			});
+
+			expect(listener.mock.calls[0][0]).toMatchObject({
+				step: "schema",
+				result: { code: "VALIDATION_ERROR", fieldErrors: { email: expect.any(Array) } },
+			});
+		});
+
+		it("should emit action.success and action.error", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			const guard = createActionGuard();
+			const onSuccess = vi.fn();
+			const onError = vi.fn();
+			guard.on("action.success", onSuccess);
+			guard.on("action.error", onError);
+
+			await guard.name("ok").action(async () => 42)();
+			const failed = await guard.name("broken").action(async () => {
+				throw new Error("db down");
+			})();
+
+			expect(onSuccess.mock.calls[0][0]).toMatchObject({ action: "ok", data: 42 });
+			expect(onError.mock.calls[0][0]).toMatchObject({
+				action: "broken",
+				error: new Error("db down"),
+				correlationId: !failed.success && failed.correlationId,
+			});
+			vi.restoreAllMocks();
+		});
+
+		it("should not change the result when a listener throws", async () => {
+			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const guard = createActionGuard({ auth: customAuth(async () => null) });
+			guard.on("auth.failed", () => {
+				throw new Error("alerting down");
+			});
+
+			const result = await guard.auth().action(async () => "ok")();
+
+			expect(result).toMatchObject({ success: false, code: "AUTH_FAILED" });
+			expect(consoleSpy).toHaveBeenCalledWith(
+				'[actionguard] "auth.failed" listener failed',
+				expect.any(Error),
+			);
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("Request headers", () => {
+		it("should hand the incoming request headers to the auth provider", async () => {
+			const resolver = vi.fn(async (headers: Headers) => {
+				return headers.get("authorization") === "Bearer valid" ? { id: "user-1" } : null;
+			});
+			const guard = createActionGuard({
+				auth: customAuth(resolver),
+				headers: () => ({ authorization: "Bearer valid" }),
+			});
+
+			const myAction = guard.auth().action(async ({ ctx }) => {
+				return { user: ctx.user };
+			});
+
+			const result = await myAction();
+
+			expect(result).toEqual({ success: true, data: { user: { id: "user-1" } } });
+			expect(resolver).toHaveBeenCalledOnce();
+		});
+
+		it("should resolve the headers source on every invocation", async () => {
+			let ip = "1.1.1.1";
+			const guard = createActionGuard({
+				headers: async () => new Headers({ "x-forwarded-for": `${ip}, 10.0.0.1` }),
+			});
+
+			const myAction = guard.action(async ({ ctx }) => {
+				return { ip: ctx.headers.get("x-forwarded-for") };
+			});
+
+			const first = await myAction();
+			ip = "2.2.2.2";
+			const second = await myAction();
+
+			expect(first).toEqual({ success: true, data: { ip: "1.1.1.1, 10.0.0.1" } });
+			expect(second).toEqual({ success: true, data: { ip: "2.2.2.2, 10.0.0.1" } });
+		});
+
+		it("should return INTERNAL_ERROR when the headers source throws", async () => {
+			const guard = createActionGuard({
+				headers: () => {
+					throw new Error("No request");
+				},
+			});
+			const handlerSpy = vi.fn().mockResolvedValue({ ok: true });
+
+			const result = await guard.action(handlerSpy)();
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(result.code).toBe("INTERNAL_ERROR");
+			}
+			expect(handlerSpy).not.toHaveBeenCalled();
+		});
+	});
+
 	describe("Auth failure propagation", () => {
 		it("should return AUTH_FAILED when auth provider resolves to null", async () => {
 			const guard = createActionGuard({
@@ -272,7 +1487,8 @@ describe("Builder Integration Pipeline", () => {
 		});
 
 		it("should return INTERNAL_ERROR when no auth provider is configured", async () => {
-			const guard = createActionGuard(); // No auth config
+			const onError = vi.fn();
+			const guard = createActionGuard({ onError }); // No auth config
 
 			const myAction = guard.auth().action(async () => {
 				return { ok: true };
@@ -282,9 +1498,11 @@ describe("Builder Integration Pipeline", () => {
 
 			expect(result).toEqual({
 				success: false,
-				error: "Auth provider not configured",
+				error: "Internal error",
 				code: "INTERNAL_ERROR",
+				correlationId: expect.any(String),
 			});
+			expect(onError.mock.calls[0][0]).toEqual(new Error("Auth provider not configured"));
 		});
 
 		it("should return INTERNAL_ERROR when auth provider throws", async () => {
@@ -361,6 +1579,11 @@ describe("Builder Integration Pipeline", () => {
 				success: false,
 				error: "Validation failed",
 				code: "VALIDATION_ERROR",
+				formErrors: [],
+				fieldErrors: {
+					email: ["Invalid email"],
+					name: ["String must contain at least 2 character(s)"],
+				},
 			});
 		});
 
@@ -464,7 +1687,7 @@ describe("Builder Integration Pipeline", () => {
 			expect(auditEntry).toMatchObject({
 				action: "DELETE_RECORD",
 				resource: "invoices",
-				userId: "[object Object]", // String(testUser) — the user object is stringified
+				userId: "user-99",
 				success: true,
 			});
 			expect(auditEntry.timestamp).toBeDefined();
@@ -531,7 +1754,17 @@ describe("Builder Integration Pipeline", () => {
 	});
 
 	describe("Error handling", () => {
-		it("should return INTERNAL_ERROR when the action handler throws an Error", async () => {
+		let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+		beforeEach(() => {
+			consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		});
+
+		afterEach(() => {
+			consoleErrorSpy.mockRestore();
+		});
+
+		it("should return a generic INTERNAL_ERROR when the action handler throws an Error", async () => {
 			const guard = createActionGuard();
 
 			const myAction = guard.action(async () => {
@@ -543,10 +1776,114 @@ describe("Builder Integration Pipeline", () => {
 			expect(result.success).toBe(false);
 			if (!result.success) {
 				expect(result.code).toBe("INTERNAL_ERROR");
-				expect(result.error).toBe("Something went wrong internally");
+				expect(result.error).toBe("Internal error");
+				expect(result.correlationId).toMatch(/^[0-9a-f-]{36}$/);
+			}
+		});
+
+		it("should log unexpected errors to console.error when no onError hook is set", async () => {
+			const guard = createActionGuard();
+			const error = new Error('relation "users" does not exist');
+
+			const result = await guard.action(async () => {
+				throw error;
+			})();
+
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(consoleErrorSpy).toHaveBeenCalledWith(
+					`[actionguard] Unhandled error (correlationId: ${result.correlationId})`,
+					error,
+				);
 			}
 		});
 
+		it("should report unexpected errors through onError with the same correlation id", async () => {
+			const onError = vi.fn();
+			const guard = createActionGuard({
+				auth: customAuth(async () => ({ id: "user-1" })),
+				onError,
+			});
+			const error = new Error("duplicate key value violates unique constraint");
+
+			const myAction = guard.auth().action(async () => {
+				throw error;
+			});
+
+			const result = await myAction({ name: "x" });
+
+			expect(result.success).toBe(false);
+			if (result.success) return;
+
+			expect(result.error).toBe("Internal error");
+			expect(onError).toHaveBeenCalledOnce();
+			const [reported, info] = onError.mock.calls[0];
+			expect(reported).toBe(error);
+			expect(info.correlationId).toBe(result.correlationId);
+			expect(info.ctx.user).toEqual({ id: "user-1" });
+			expect(info.ctx.input).toEqual({ name: "x" });
+			expect(consoleErrorSpy).not.toHaveBeenCalled();
+		});
+
+		it("should still return the generic result when onError throws", async () => {
+			const guard = createActionGuard({
+				onError: async () => {
+					throw new Error("logger down");
+				},
+			});
+
+			const result = await guard.action(async () => {
+				throw new Error("boom");
+			})();
+
+			expect(result).toMatchObject({
+				success: false,
+				error: "Internal error",
+				code: "INTERNAL_ERROR",
+			});
+		});
+
+		it("should surface ActionError messages, codes and status", async () => {
+			const onError = vi.fn();
+			const guard = createActionGuard({ onError });
+
+			const myAction = guard.action(async () => {
+				throw new ActionError("Invoice not found", { code: "NOT_FOUND", status: 404 });
+			});
+
+			const result = await myAction();
+
+			expect(result).toEqual({
+				success: false,
+				error: "Invoice not found",
+				code: "NOT_FOUND",
+				status: 404,
+			});
+			expect(onError).not.toHaveBeenCalled();
+		});
+
+		it("should surface ActionError thrown from middleware", async () => {
+			const guard = createActionGuard();
+
+			const myAction = guard
+				.use(async () => {
+					throw new ActionError("Feature disabled for your plan", {
+						code: "PLAN_REQUIRED",
+						status: 402,
+					});
+				})
+				.action(async () => ({ ok: true }));
+
+			const result = await myAction();
+
+			expect(result).toEqual({
+				success: false,
+				error: "Feature disabled for your plan",
+				code: "PLAN_REQUIRED",
+				status: 402,
+			});
+		});
+
 		it("should return generic message when a non-Error is thrown", async () => {
 			const guard = createActionGuard();
 
@@ -576,9 +1913,10 @@ describe("Builder Integration Pipeline", () => {
 
 			expect(result.success).toBe(false);
 			if (!result.success) {
-				// Only the message is returned, not the stack
-				expect(result.error).toBe("DB query failed");
-				expect(result.error).not.toContain("/app/secret/path.ts");
+				// Neither the message nor the stack is returned
+				expect(result.error).toBe("Internal error");
+				expect(JSON.stringify(result)).not.toContain("DB query failed");
+				expect(JSON.stringify(result)).not.toContain("/app/secret/path.ts");
 				expect((result as Record<string, unknown>).stack).toBeUndefined();
 			}
 		});
@@ -598,7 +1936,7 @@ describe("Builder Integration Pipeline", () => {
 			expect(result.success).toBe(false);
 			if (!result.success) {
 				expect(result.code).toBe("INTERNAL_ERROR");
-				expect(result.error).toBe("Cannot read properties of undefined");
+				expect(result.error).toBe("Internal error");
 			}
 			expect(handlerSpy).not.toHaveBeenCalled();
 		});
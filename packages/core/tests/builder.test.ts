@@ -1,6 +1,11 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, expectTypeOf, it, vi } from "vitest";
+import { z } from "zod";
 import { customAuth } from "../src/auth/custom";
+import { type NextAuthUser, nextAuth } from "../src/auth/next-auth";
+import { type SupabaseUser, supabaseAuth } from "../src/auth/supabase";
 import { createActionGuard } from "../src/builder";
+import { ActionError } from "../src/errors";
+import type { ActionGuardInstance } from "../src/types";
 
 describe("createActionGuard", () => {
 	it("should create a guard instance", () => {
@@ -22,7 +27,8 @@ describe("createActionGuard", () => {
 	});
 
 	it("should fail auth when no provider configured", async () => {
-		const guard = createActionGuard();
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
 		const myAction = guard.auth().action(async () => {
 			return { ok: true };
 		});
@@ -30,9 +36,11 @@ describe("createActionGuard", () => {
 		const result = await myAction();
 		expect(result).toEqual({
 			success: false,
-			error: "Auth provider not configured",
+			error: "Internal error",
 			code: "INTERNAL_ERROR",
+			correlationId: expect.any(String),
 		});
+		expect(onError.mock.calls[0][0]).toEqual(new Error("Auth provider not configured"));
 	});
 
 	it("should pass auth with custom provider", async () => {
@@ -87,3 +95,967 @@ describe("createActionGuard", () => {
 		}
 	});
 });
+
+describe("use()", () => {
+	it("should run custom middleware before the handler", async () => {
+		const order: string[] = [];
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				order.push("before");
+				const result = await next();
+				order.push("after");
+				return result;
+			})
+			.action(async () => {
+				order.push("handler");
+				return { ok: true };
+			});
+
+		const result = await myAction();
+		expect(result).toEqual({ success: true, data: { ok: true } });
+		expect(order).toEqual(["before", "handler", "after"]);
+	});
+
+	it("should pass the downstream result through when middleware returns nothing", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.use(async (ctx, next) => {
+				ctx.metadata.feature = "beta";
+				await next();
+			})
+			.action(async ({ ctx }) => {
+				return { feature: ctx.metadata.feature };
+			});
+
+		const result = await myAction();
+		expect(result).toEqual({ success: true, data: { feature: "beta" } });
+	});
+
+	it("should short-circuit with an ActionResult without calling the handler", async () => {
+		const guard = createActionGuard();
+		const handlerSpy = vi.fn().mockResolvedValue({ ok: true });
+
+		const myAction = guard
+			.use(async () => ({ success: false, error: "Feature disabled", code: "FEATURE_DISABLED" }))
+			.action(handlerSpy);
+
+		const result = await myAction();
+		expect(result).toEqual({ success: false, error: "Feature disabled", code: "FEATURE_DISABLED" });
+		expect(handlerSpy).not.toHaveBeenCalled();
+	});
+
+	it("should wrap later built-in steps in chain order", async () => {
+		const guard = createActionGuard({
+			auth: customAuth(async () => null),
+		});
+		const seen: unknown[] = [];
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				const result = await next();
+				seen.push(result);
+			})
+			.auth()
+			.action(async () => ({ ok: true }));
+
+		const result = await myAction();
+		expect(result).toEqual({ success: false, error: "Unauthorized", code: "AUTH_FAILED" });
+		expect(seen).toEqual([result]);
+	});
+
+	it("should see the resolved user and validated input when chained later", async () => {
+		const guard = createActionGuard({
+			auth: customAuth(async () => ({ id: "1" })),
+		});
+
+		const myAction = guard
+			.auth()
+			.use(async (ctx, next) => {
+				if ((ctx.user as { id: string }).id !== "1") {
+					return { success: false, error: "Wrong tenant", code: "FORBIDDEN" };
+				}
+				return next();
+			})
+			.action(async () => ({ ok: true }));
+
+		expect(await myAction()).toEqual({ success: true, data: { ok: true } });
+	});
+
+	it("should let middleware replace the handler result", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				const result = await next();
+				return result.success ? { success: true, data: { wrapped: result.data } } : result;
+			})
+			.action(async () => "raw");
+
+		expect(await myAction()).toEqual({ success: true, data: { wrapped: "raw" } });
+	});
+
+	it("should let middleware catch handler errors thrown downstream", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				try {
+					return await next();
+				} catch {
+					return { success: false, error: "Handled", code: "HANDLED" };
+				}
+			})
+			.action(async () => {
+				throw new Error("boom");
+			});
+
+		expect(await myAction()).toEqual({ success: false, error: "Handled", code: "HANDLED" });
+	});
+
+	it("should fail with INTERNAL_ERROR when middleware neither calls next nor returns", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
+		const myAction = guard.use(async () => undefined).action(async () => ({ ok: true }));
+
+		const result = await myAction();
+		expect(result).toMatchObject({ success: false, code: "INTERNAL_ERROR" });
+		expect(onError.mock.calls[0][0]).toEqual(
+			new Error("Middleware must call next() or return an ActionResult"),
+		);
+	});
+
+	it("should reject a second call to next()", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
+		const handlerSpy = vi.fn().mockResolvedValue({ ok: true });
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				await next();
+				return next();
+			})
+			.action(handlerSpy);
+
+		const result = await myAction();
+		expect(result).toMatchObject({ success: false, code: "INTERNAL_ERROR" });
+		expect(onError.mock.calls[0][0]).toEqual(new Error("next() called multiple times"));
+		expect(handlerSpy).toHaveBeenCalledOnce();
+	});
+
+	it("should report a downstream error the middleware did not wait for", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
+		let fail: (error: Error) => void = () => {};
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				next();
+				return { success: false, error: "Handled", code: "HANDLED" };
+			})
+			.action(
+				() =>
+					new Promise((_resolve, reject) => {
+						fail = reject;
+					}),
+			);
+
+		expect(await myAction()).toEqual({ success: false, error: "Handled", code: "HANDLED" });
+		fail(new Error("boom"));
+		await vi.waitFor(() => expect(onError).toHaveBeenCalledOnce());
+		expect(onError.mock.calls[0][0]).toEqual(new Error("boom"));
+	});
+
+	it("should not report a downstream error the middleware handled", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
+
+		const myAction = guard
+			.use(async (_ctx, next) => {
+				await next().catch(() => undefined);
+				return { success: false, error: "Handled", code: "HANDLED" };
+			})
+			.action(async () => {
+				throw new Error("boom");
+			});
+
+		expect(await myAction()).toEqual({ success: false, error: "Handled", code: "HANDLED" });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(onError).not.toHaveBeenCalled();
+	});
+});
+
+describe("context()", () => {
+	it("should merge resolved fields into the handler context", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.context(async () => ({ org: { id: "org-1" } }))
+			.context(({ org }) => ({ db: { orgId: org.id } }))
+			.action(async ({ ctx }) => {
+				expectTypeOf(ctx.org).toEqualTypeOf<{ id: string }>();
+				expectTypeOf(ctx.db).toEqualTypeOf<{ orgId: string }>();
+				return { org: ctx.org.id, db: ctx.db.orgId };
+			});
+
+		const result = await myAction();
+		expect(result).toEqual({ success: true, data: { org: "org-1", db: "org-1" } });
+	});
+
+	it("should keep input typing flowing from schema()", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.schema(z.object({ slug: z.string() }))
+			.context(({ input }) => ({ tenant: input.slug.toUpperCase() }))
+			.action(async ({ input, ctx }) => {
+				expectTypeOf(input).toEqualTypeOf<{ slug: string }>();
+				expectTypeOf(ctx.tenant).toEqualTypeOf<string>();
+				return ctx.tenant;
+			});
+
+		expect(await myAction({ slug: "acme" })).toEqual({ success: true, data: "ACME" });
+	});
+
+	it("should expose extended fields to later middleware", async () => {
+		const guard = createActionGuard();
+
+		const myAction = guard
+			.context(() => ({ plan: "free" as const }))
+			.use(async (ctx, next) => {
+				if (ctx.plan === "free") {
+					return { success: false, error: "Upgrade required", code: "PLAN_REQUIRED" };
+				}
+				return next();
+			})
+			.action(async () => ({ ok: true }));
+
+		expect(await myAction()).toEqual({
+			success: false,
+			error: "Upgrade required",
+			code: "PLAN_REQUIRED",
+		});
+	});
+
+	it("should not run the resolver when an earlier step rejects", async () => {
+		const guard = createActionGuard({ auth: customAuth(async () => null) });
+		const resolver = vi.fn(() => ({ org: "org-1" }));
+
+		const myAction = guard
+			.auth()
+			.context(resolver)
+			.action(async () => ({ ok: true }));
+
+		const result = await myAction();
+		expect(result.success).toBe(false);
+		expect(resolver).not.toHaveBeenCalled();
+	});
+
+	it("should refuse to override built-in context fields", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ onError });
+
+		const myAction = guard
+			.context(() => ({ user: { id: "spoofed" } }))
+			.action(async () => ({ ok: true }));
+
+		expect(await myAction()).toMatchObject({ success: false, code: "INTERNAL_ERROR" });
+		expect(onError.mock.calls[0][0]).toEqual(
+			new Error("Context resolver cannot override ctx.user"),
+		);
+	});
+});
+
+describe("user typing", () => {
+	it("should infer the user type from the auth provider", () => {
+		const supabase = createActionGuard({
+			auth: supabaseAuth({ url: "https://example.supabase.co", anonKey: "anon" }),
+		});
+		const nextAuthGuard = createActionGuard({ auth: nextAuth({ secret: "secret" }) });
+
+		expectTypeOf(supabase).toEqualTypeOf<ActionGuardInstance<SupabaseUser>>();
+		expectTypeOf(nextAuthGuard).toEqualTypeOf<ActionGuardInstance<NextAuthUser>>();
+	});
+
+	it("should type ctx.user as non-null after auth()", async () => {
+		const guard = createActionGuard({
+			auth: customAuth(async () => ({ id: "1", role: "admin" as const })),
+		});
+
+		const myAction = guard
+			.schema(z.object({ title: z.string() }))
+			.auth()
+			.action(async ({ ctx }) => {
+				expectTypeOf(ctx.user).toEqualTypeOf<{ id: string; role: "admin" }>();
+				return ctx.user.id;
+			});
+
+		expect(await myAction({ title: "hi" })).toEqual({ success: true, data: "1" });
+	});
+
+	it("should keep ctx.user nullable without auth()", () => {
+		const guard = createActionGuard({
+			auth: customAuth(async () => ({ id: "1" })),
+		});
+
+		guard.action(async ({ ctx }) => {
+			expectTypeOf(ctx.user).toEqualTypeOf<{ id: string } | null>();
+			return null;
+		});
+	});
+
+	it("should expose the narrowed user to later middleware and context resolvers", async () => {
+		const guard = createActionGuard({
+			auth: customAuth(async () => ({ id: "1", orgId: "org-9" })),
+		});
+
+		const myAction = guard
+			.auth()
+			.context(({ user }) => ({ orgId: user.orgId }))
+			.use(async (ctx, next) => {
+				expectTypeOf(ctx.user).toEqualTypeOf<{ id: string; orgId: string }>();
+				return next();
+			})
+			.action(async ({ ctx }) => ctx.orgId);
+
+		expect(await myAction()).toEqual({ success: true, data: "org-9" });
+	});
+});
+
+describe("bindArgsSchemas()", () => {
+	it("should validate bound arguments separately from the input", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const updateInvoice = guard
+			.bindArgsSchemas([z.string().uuid(), z.coerce.number()])
+			.schema(z.object({ title: z.string() }))
+			.action(async ({ input, bindArgs, ctx }) => {
+				expectTypeOf(bindArgs).toEqualTypeOf<[string, number]>();
+				expectTypeOf(ctx.bindArgs).toEqualTypeOf<[string, number]>();
+				const [invoiceId, version] = bindArgs;
+				return { invoiceId, version, title: input.title };
+			});
+
+		const bound = updateInvoice.bind(null, "3f2b1c9e-8d4a-4e6b-9c1d-2a3b4c5d6e7f", "7");
+		const result = await bound({ title: "Q3" });
+
+		expect(result).toEqual({
+			success: true,
+			data: { invoiceId: "3f2b1c9e-8d4a-4e6b-9c1d-2a3b4c5d6e7f", version: 7, title: "Q3" },
+		});
+	});
+
+	it("should reject invalid bound arguments with per-argument errors", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const handlerSpy = vi.fn().mockResolvedValue({ ok: true });
+
+		const deleteInvoice = guard
+			.bindArgsSchemas([z.string().uuid("Invalid invoice id"), z.number()])
+			.action(handlerSpy);
+
+		const result = await deleteInvoice("not-a-uuid", 1, { confirm: true });
+
+		expect(result).toEqual({
+			success: false,
+			error: "Invalid bound arguments",
+			code: "VALIDATION_ERROR",
+			bindArgsErrors: [
+				{ formErrors: ["Invalid invoice id"], fieldErrors: {} },
+				{ formErrors: [], fieldErrors: {} },
+			],
+		});
+		expect(handlerSpy).not.toHaveBeenCalled();
+	});
+
+	it("should pass the remaining FormData argument through the schema step", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const rename = guard
+			.bindArgsSchemas([z.string()])
+			.schema(z.object({ name: z.string(), position: z.number() }))
+			.action(async ({ input, bindArgs, prevState }) => ({ id: bindArgs[0], input, prevState }));
+
+		const formData = new FormData();
+		formData.append("name", "Renamed");
+		formData.append("position", "2");
+
+		expect(await rename("item-1", formData)).toEqual({
+			success: true,
+			data: { id: "item-1", input: { name: "Renamed", position: 2 }, prevState: undefined },
+		});
+		expect(await rename("item-1", { previous: true }, formData)).toEqual({
+			success: true,
+			data: {
+				id: "item-1",
+				input: { name: "Renamed", position: 2 },
+				prevState: { previous: true },
+			},
+		});
+	});
+
+	it("should expose validated bound arguments to later steps", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const myAction = guard
+			.bindArgsSchemas([z.coerce.number()])
+			.use(async (ctx, next) => {
+				if (ctx.bindArgs[0] > 10) {
+					return { success: false, error: "Too large", code: "OUT_OF_RANGE" };
+				}
+				return next();
+			})
+			.action(async () => ({ ok: true }));
+
+		expect(await myAction("42")).toEqual({
+			success: false,
+			error: "Too large",
+			code: "OUT_OF_RANGE",
+		});
+	});
+
+	it("should default bindArgs to an empty tuple", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const myAction = guard.action(async ({ bindArgs }) => {
+			expectTypeOf(bindArgs).toEqualTypeOf<[]>();
+			return bindArgs;
+		});
+
+		expect(await myAction("input")).toEqual({ success: true, data: [] });
+	});
+});
+
+describe("outputSchema()", () => {
+	const userOutput = z.object({ id: z.string(), email: z.string().email() });
+
+	it("should strip keys the output schema does not declare", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const getUser = guard
+			.outputSchema(userOutput)
+			.action(async () => ({ id: "u1", email: "a@b.co", passwordHash: "$2b$10$secret" }));
+
+		const result = await getUser(undefined);
+
+		expect(result).toEqual({ success: true, data: { id: "u1", email: "a@b.co" } });
+		if (result.success) {
+			expectTypeOf(result.data).toEqualTypeOf<{ id: string; email: string }>();
+		}
+	});
+
+	it("should return the parsed output type", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const getCount = guard
+			.outputSchema(z.object({ count: z.string().transform(Number) }))
+			.action(async () => ({ count: "3" }));
+
+		const result = await getCount(undefined);
+
+		expect(result).toEqual({ success: true, data: { count: 3 } });
+		if (result.success) {
+			expectTypeOf(result.data).toEqualTypeOf<{ count: number }>();
+		}
+	});
+
+	it("should fail with OUTPUT_VALIDATION_ERROR and report the issues server-side", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ headers: () => ({}), onError });
+
+		const getUser = guard
+			.outputSchema(userOutput)
+			// @ts-expect-error email must be a string
+			.action(async () => ({ id: "u1", email: 42 }));
+
+		const result = await getUser(undefined);
+
+		expect(result).toEqual({
+			success: false,
+			error: "Output validation failed",
+			code: "OUTPUT_VALIDATION_ERROR",
+			correlationId: expect.any(String),
+		});
+		expect(onError).toHaveBeenCalledOnce();
+		const [error, info] = onError.mock.calls[0];
+		expect(error.message).toBe("Action output failed schema validation");
+		expect(error.cause).toBeInstanceOf(z.ZodError);
+		expect(info.correlationId).toBe(!result.success && result.correlationId);
+	});
+
+	it("should pass rejections from earlier steps through untouched", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const handlerSpy = vi.fn();
+
+		const myAction = guard
+			.outputSchema(userOutput)
+			.schema(z.object({ id: z.string() }))
+			.action(handlerSpy);
+
+		const result = await myAction({ id: 1 });
+
+		expect(result).toMatchObject({ success: false, code: "VALIDATION_ERROR" });
+		expect(handlerSpy).not.toHaveBeenCalled();
+	});
+
+	it("should keep the output schema across later builder steps", async () => {
+		const guard = createActionGuard({
+			headers: () => ({}),
+			auth: customAuth(async () => ({ id: "u1", email: "a@b.co" })),
+		});
+
+		const me = guard
+			.outputSchema(userOutput)
+			.auth()
+			.schema(z.object({ verbose: z.boolean() }))
+			.context(() => ({ requestId: "r1" }))
+			.action(async ({ ctx }) => ({ ...ctx.user, requestId: ctx.requestId }));
+
+		expect(await me({ verbose: true })).toEqual({
+			success: true,
+			data: { id: "u1", email: "a@b.co" },
+		});
+	});
+});
+
+describe("lifecycle hooks", () => {
+	it("should run builder hooks before guard-wide hooks on success", async () => {
+		const calls: string[] = [];
+		const guard = createActionGuard({
+			headers: () => ({}),
+			onSuccess: (data) => {
+				calls.push(`global:${JSON.stringify(data)}`);
+			},
+			onSettled: () => {
+				calls.push("global:settled");
+			},
+		});
+
+		const myAction = guard
+			.outputSchema(z.object({ id: z.string() }))
+			.onSuccess((data, { ctx }) => {
+				expectTypeOf(data).toEqualTypeOf<{ id: string }>();
+				calls.push(`action:${data.id}:${String(ctx.input)}`);
+			})
+			.onSettled((result) => {
+				calls.push(`action:settled:${result.success}`);
+			})
+			.action(async () => ({ id: "p1", secret: "x" }));
+
+		await myAction("in");
+
+		expect(calls).toEqual([
+			"action:p1:in",
+			'global:{"id":"p1"}',
+			"action:settled:true",
+			"global:settled",
+		]);
+	});
+
+	it("should report the rejecting step and code to onBlocked", async () => {
+		const onBlocked = vi.fn();
+		const onSuccess = vi.fn();
+		const guard = createActionGuard({
+			headers: () => ({}),
+			auth: customAuth(async () => null),
+			onBlocked,
+			onSuccess,
+		});
+
+		const result = await guard.auth().action(async () => "ok")(undefined);
+
+		expect(onBlocked).toHaveBeenCalledOnce();
+		expect(onBlocked).toHaveBeenCalledWith(result, {
+			step: "auth",
+			code: "AUTH_FAILED",
+			ctx: expect.objectContaining({ user: null }),
+		});
+		expect(onSuccess).not.toHaveBeenCalled();
+	});
+
+	it("should attribute rejections to the step that produced them", async () => {
+		const onBlocked = vi.fn();
+		const guard = createActionGuard({ headers: () => ({}), onBlocked });
+
+		const myAction = guard
+			.use(async (ctx, next) => {
+				if (ctx.input === "deny") {
+					return { success: false, error: "Denied", code: "DENIED" };
+				}
+				return next();
+			})
+			.schema(z.string().min(3))
+			.action(async ({ input }) => input);
+
+		await myAction("deny");
+		await myAction("no");
+		await myAction("valid");
+
+		expect(onBlocked.mock.calls.map(([, info]) => [info.step, info.code])).toEqual([
+			["use", "DENIED"],
+			["schema", "VALIDATION_ERROR"],
+		]);
+	});
+
+	it("should call onError for unexpected errors only", async () => {
+		const globalOnError = vi.fn();
+		const actionOnError = vi.fn();
+		const onSettled = vi.fn();
+		const guard = createActionGuard({
+			headers: () => ({}),
+			onError: globalOnError,
+			onSettled,
+		});
+
+		const myAction = guard
+			.schema(z.string())
+			.onError(actionOnError)
+			.action(async ({ input }) => {
+				if (input === "expected") {
+					throw new ActionError("Not found", { code: "NOT_FOUND", status: 404 });
+				}
+				throw new Error("db down");
+			});
+
+		const unexpected = await myAction("boom");
+		const expected = await myAction("expected");
+
+		expect(actionOnError).toHaveBeenCalledOnce();
+		expect(globalOnError).toHaveBeenCalledOnce();
+		expect(actionOnError.mock.calls[0][1].correlationId).toBe(
+			!unexpected.success && unexpected.correlationId,
+		);
+		expect(onSettled.mock.calls.map(([result]) => result)).toEqual([unexpected, expected]);
+	});
+
+	it("should keep the result when a hook throws and report the hook error", async () => {
+		const onError = vi.fn();
+		const guard = createActionGuard({ headers: () => ({}), onError });
+		const later = vi.fn();
+
+		const myAction = guard
+			.onSuccess(() => {
+				throw new Error("revalidate failed");
+			})
+			.onSuccess(later)
+			.action(async () => "ok");
+
+		expect(await myAction(undefined)).toEqual({ success: true, data: "ok" });
+		expect(later).toHaveBeenCalledWith("ok", expect.anything());
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ message: "revalidate failed" }),
+			expect.objectContaining({ correlationId: expect.any(String) }),
+		);
+	});
+});
+
+describe("timeout()", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should fail with TIMEOUT and abort ctx.signal when the limit is exceeded", async () => {
+		vi.useFakeTimers();
+		const guard = createActionGuard({ headers: () => ({}) });
+		let signal: AbortSignal | undefined;
+
+		const slowAction = guard.timeout("5s").action(async ({ ctx }) => {
+			signal = ctx.signal;
+			return new Promise<string>(() => {});
+		});
+
+		const pending = slowAction(undefined);
+		await vi.advanceTimersByTimeAsync(5000);
+
+		expect(await pending).toEqual({
+			success: false,
+			error: "Action timed out",
+			code: "TIMEOUT",
+		});
+		expect(signal?.aborted).toBe(true);
+		expect(signal?.reason).toMatchObject({ name: "TimeoutError" });
+	});
+
+	it("should clear the timer when the action finishes in time", async () => {
+		vi.useFakeTimers();
+		const guard = createActionGuard({ headers: () => ({}) });
+
+		const fastAction = guard.timeout("5s").action(async ({ ctx }) => ctx.signal.aborted);
+
+		expect(await fastAction(undefined)).toEqual({ success: true, data: false });
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it("should apply the guard default unless the action overrides it", async () => {
+		vi.useFakeTimers();
+		const guard = createActionGuard({ headers: () => ({}), timeout: "1s" });
+		const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+		const usesDefault = guard.action(async () => {
+			await wait(2000);
+			return "done";
+		});
+		const overridden = guard
+			.timeout("1s")
+			.timeout("3s")
+			.action(async () => {
+				await wait(2000);
+				return "done";
+			});
+
+		const first = usesDefault(undefined);
+		const second = overridden(undefined);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		expect(await first).toMatchObject({ success: false, code: "TIMEOUT" });
+		expect(await second).toEqual({ success: true, data: "done" });
+	});
+
+	it("should report the timeout to onBlocked", async () => {
+		vi.useFakeTimers();
+		const onBlocked = vi.fn();
+		const guard = createActionGuard({ headers: () => ({}), onBlocked });
+
+		const pending = guard.timeout("1s").action(() => new Promise(() => {}))(undefined);
+		await vi.advanceTimersByTimeAsync(1000);
+		await pending;
+
+		expect(onBlocked).toHaveBeenCalledWith(
+			expect.objectContaining({ code: "TIMEOUT" }),
+			expect.objectContaining({ step: "timeout", code: "TIMEOUT" }),
+		);
+	});
+
+	it("should not run later steps or the handler after the timeout", async () => {
+		vi.useFakeTimers();
+		const guard = createActionGuard({ headers: () => ({}) });
+		const handler = vi.fn().mockResolvedValue("ran");
+
+		const slowAction = guard
+			.timeout("1s")
+			.context(async () => {
+				await new Promise((resolve) => setTimeout(resolve, 1200));
+				return { ready: true };
+			})
+			.action(handler);
+
+		const pending = slowAction(undefined);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		expect(await pending).toMatchObject({ success: false, code: "TIMEOUT" });
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it("should report errors thrown after the timeout to onError", async () => {
+		vi.useFakeTimers();
+		const onError = vi.fn();
+		const guard = createActionGuard({ headers: () => ({}), onError });
+
+		const slowAction = guard.timeout("1s").action(async () => {
+			await new Promise((resolve) => setTimeout(resolve, 1200));
+			throw new Error("commit failed");
+		});
+
+		const pending = slowAction(undefined);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		expect(await pending).toMatchObject({ success: false, code: "TIMEOUT" });
+		expect(onError).toHaveBeenCalledOnce();
+		expect(onError.mock.calls[0][0]).toEqual(new Error("commit failed"));
+	});
+
+	it("should reject invalid durations when the action is defined", () => {
+		const guard = createActionGuard();
+
+		expect(() => guard.timeout("soon")).toThrow('Invalid window format "soon"');
+		expect(() => createActionGuard({ timeout: "0s" })).toThrow("positive integer");
+	});
+});
+
+describe("pipe()", () => {
+	interface AppUser {
+		id: string;
+		role: string;
+	}
+
+	const admin: AppUser = { id: "user-1", role: "admin" };
+
+	it("should append a preset built from the same guard", async () => {
+		const guard = createActionGuard({ headers: () => ({}), auth: customAuth(async () => admin) });
+		const adminAction = guard.auth().roles("admin");
+
+		const deleteUser = guard
+			.pipe(adminAction)
+			.schema(z.object({ userId: z.string() }))
+			.action(async ({ input, ctx }) => {
+				expectTypeOf(ctx.user).toEqualTypeOf<AppUser>();
+				expectTypeOf(input).toEqualTypeOf<{ userId: string }>();
+				return `${ctx.user.id} deleted ${input.userId}`;
+			});
+
+		expect(await deleteUser({ userId: "user-2" })).toEqual({
+			success: true,
+			data: "user-1 deleted user-2",
+		});
+	});
+
+	it("should run fragment steps with the piping guard's config", async () => {
+		const fragment = createActionGuard<AppUser>()
+			.auth()
+			.schema(z.object({ id: z.string() }))
+			.context(({ user }) => ({ isAdmin: user.role === "admin" }));
+		const guard = createActionGuard({ headers: () => ({}), auth: customAuth(async () => admin) });
+
+		const myAction = guard.pipe(fragment).action(async ({ input, ctx }) => {
+			expectTypeOf(input).toEqualTypeOf<{ id: string }>();
+			expectTypeOf(ctx.isAdmin).toEqualTypeOf<boolean>();
+			return { id: input.id, isAdmin: ctx.isAdmin };
+		});
+
+		expect(await myAction({ id: "x" })).toEqual({
+			success: true,
+			data: { id: "x", isAdmin: true },
+		});
+	});
+
+	it("should keep the current input and steps when the fragment has no schema", async () => {
+		const order: string[] = [];
+		const guard = createActionGuard({ headers: () => ({}) });
+		const tracked = guard.use(async (_ctx, next) => {
+			order.push("fragment");
+			return next();
+		});
+
+		const myAction = guard
+			.schema(z.number())
+			.use(async (_ctx, next) => {
+				order.push("own");
+				return next();
+			})
+			.pipe(tracked)
+			.pipe(tracked)
+			.action(async ({ input }) => {
+				expectTypeOf(input).toEqualTypeOf<number>();
+				return input;
+			});
+
+		expect(await myAction(7)).toEqual({ success: true, data: 7 });
+		expect(order).toEqual(["own", "fragment", "fragment"]);
+	});
+
+	it("should accept a function fragment", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const myAction = guard
+			.schema(z.string())
+			.pipe((builder) => builder.context(({ input }) => ({ requestId: `req-${input}` })))
+			.action(async ({ ctx }) => {
+				expectTypeOf(ctx.requestId).toEqualTypeOf<string>();
+				return ctx.requestId;
+			});
+
+		expect(await myAction("1")).toEqual({ success: true, data: "req-1" });
+	});
+
+	it("should carry over the fragment's output schema", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const publicUser = guard.outputSchema(z.object({ id: z.string() }));
+
+		const getUser = guard.pipe(publicUser).action(async () => ({ id: "u1", passwordHash: "x" }));
+		const result = await getUser(undefined);
+
+		expect(result).toEqual({ success: true, data: { id: "u1" } });
+		if (result.success) {
+			expectTypeOf(result.data).toEqualTypeOf<{ id: string }>();
+		}
+	});
+
+	it("should reject values that are not builders", () => {
+		const guard = createActionGuard();
+
+		expect(() => guard.pipe({} as unknown as typeof guard)).toThrow(
+			"pipe() expects a builder or a function",
+		);
+	});
+});
+
+describe("describe()", () => {
+	it("should list the steps in order with their configuration", () => {
+		const guard = createActionGuard({ auth: customAuth(async () => ({ id: "user-1" })) });
+		const isOwner = () => true;
+
+		const action = guard
+			.auth()
+			.roles("admin")
+			.authorize(isOwner)
+			.schema(z.object({ title: z.string().max(100), draft: z.boolean().optional() }))
+			.rateLimit({ maxRequests: 5, window: "1m" })
+			.audit({ action: "CREATE_POST", resource: "posts" })
+			.timeout("5s")
+			.action(async () => "ok");
+
+		expect(action.describe()).toEqual({
+			steps: [
+				{ type: "auth" },
+				{ type: "roles", config: { roles: ["admin"] } },
+				{ type: "authorize", config: { policy: "isOwner" } },
+				{
+					type: "schema",
+					config: {
+						schema: {
+							type: "object",
+							properties: {
+								title: { type: "string", maxLength: 100 },
+								draft: { type: "boolean" },
+							},
+							required: ["title"],
+						},
+					},
+				},
+				{ type: "rateLimit", config: { maxRequests: 5, window: "1m" } },
+				{ type: "audit", config: { action: "CREATE_POST", resource: "posts" } },
+				{ type: "timeout", config: { ms: 5000 } },
+			],
+			timeoutMs: 5000,
+		});
+	});
+
+	it("should mark steps added by the guard's enforce option", () => {
+		const guard = createActionGuard({ enforce: { csrf: true, sanitize: true } });
+
+		const action = guard
+			.skip("sanitize", { reason: "Stores raw markdown" })
+			.action(async () => "ok");
+
+		expect(action.describe().steps).toEqual([
+			{ type: "csrf", enforced: true },
+			{ type: "skip", config: { step: "sanitize", reason: "Stores raw markdown" } },
+		]);
+	});
+
+	it("should leave out functions and stores", () => {
+		const guard = createActionGuard();
+
+		const action = guard
+			.idempotent({ ttl: "1h" })
+			.cache({ ttl: "30s", name: "posts", tags: ["posts"], key: () => "all" })
+			.use(async function tenant(_ctx, next) {
+				return next();
+			})
+			.action(async () => "ok");
+
+		expect(action.describe().steps).toEqual([
+			{ type: "idempotent", config: { header: "idempotency-key", ttlMs: 3_600_000 } },
+			{ type: "cache", config: { name: "posts", ttlMs: 30_000, shared: false, tags: ["posts"] } },
+			{ type: "use", config: { name: "tenant" } },
+		]);
+		expect(() => JSON.stringify(action.describe())).not.toThrow();
+	});
+
+	it("should not be enumerable", () => {
+		const action = createActionGuard().action(async () => "ok");
+
+		expect(Object.keys(action)).toEqual([]);
+		expect(typeof action.describe).toBe("function");
+	});
+});
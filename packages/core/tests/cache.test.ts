@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemoryCacheStore } from "../src/cache";
+
+const ok = (data: unknown) => ({ success: true as const, data });
+
+describe("MemoryCacheStore", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should return stored results until the TTL expires", async () => {
+		vi.useFakeTimers();
+		const store = new MemoryCacheStore();
+
+		await store.set("a", ok(1), { ttlMs: 1000, tags: [] });
+		expect(await store.get("a")).toEqual(ok(1));
+
+		vi.advanceTimersByTime(1000);
+		expect(await store.get("a")).toBeUndefined();
+	});
+
+	it("should remove every entry with an invalidated tag", async () => {
+		const store = new MemoryCacheStore();
+
+		await store.set("a", ok(1), { ttlMs: 1000, tags: ["invoices", "org:1"] });
+		await store.set("b", ok(2), { ttlMs: 1000, tags: ["invoices"] });
+		await store.set("c", ok(3), { ttlMs: 1000, tags: ["customers"] });
+
+		await store.invalidateTags(["org:1", "unknown"]);
+		expect(await store.get("a")).toBeUndefined();
+		expect(await store.get("b")).toEqual(ok(2));
+
+		await store.invalidateTags(["invoices"]);
+		expect(await store.get("b")).toBeUndefined();
+		expect(await store.get("c")).toEqual(ok(3));
+	});
+
+	it("should drop the old tags when an entry is replaced", async () => {
+		const store = new MemoryCacheStore();
+
+		await store.set("a", ok(1), { ttlMs: 1000, tags: ["old"] });
+		await store.set("a", ok(2), { ttlMs: 1000, tags: ["new"] });
+		await store.invalidateTags(["old"]);
+
+		expect(await store.get("a")).toEqual(ok(2));
+	});
+
+	it("should remove expired entries of keys that are never read again", async () => {
+		vi.useFakeTimers();
+		const store = new MemoryCacheStore();
+		const internals = store as unknown as {
+			entries: Map<string, unknown>;
+			keysByTag: Map<string, Set<string>>;
+		};
+
+		for (let i = 0; i < 100; i++) {
+			await store.set(`k${i}`, ok(i), { ttlMs: 1000, tags: ["invoices"] });
+		}
+		vi.advanceTimersByTime(60_000);
+		await store.set("fresh", ok(0), { ttlMs: 1000, tags: [] });
+
+		expect([...internals.entries.keys()]).toEqual(["fresh"]);
+		expect(internals.keysByTag.size).toBe(0);
+	});
+});
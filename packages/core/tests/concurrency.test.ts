@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ConcurrencyLimiter } from "../src/concurrency";
+
+describe("ConcurrencyLimiter", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should grant up to max slots per key", async () => {
+		const limiter = new ConcurrencyLimiter(2);
+
+		const first = await limiter.acquire("a");
+		const second = await limiter.acquire("a");
+		const third = await limiter.acquire("a");
+		const otherKey = await limiter.acquire("b");
+
+		expect(first).toBeTypeOf("function");
+		expect(second).toBeTypeOf("function");
+		expect(third).toBeNull();
+		expect(otherKey).toBeTypeOf("function");
+		expect(limiter.activeCount("a")).toBe(2);
+	});
+
+	it("should free the slot once even when released twice", async () => {
+		const limiter = new ConcurrencyLimiter(2);
+
+		const release = await limiter.acquire("a");
+		await limiter.acquire("a");
+		release?.();
+		release?.();
+
+		expect(limiter.activeCount("a")).toBe(1);
+	});
+
+	it("should hand a released slot to the next waiter in order", async () => {
+		const limiter = new ConcurrencyLimiter(1);
+		const order: string[] = [];
+
+		const release = await limiter.acquire("a");
+		const first = limiter.acquire("a", 5000).then((r) => {
+			order.push("first");
+			return r;
+		});
+		const second = limiter.acquire("a", 5000).then((r) => {
+			order.push("second");
+			return r;
+		});
+
+		release?.();
+		const firstRelease = await first;
+		expect(order).toEqual(["first"]);
+		expect(limiter.activeCount("a")).toBe(1);
+
+		firstRelease?.();
+		await second;
+		expect(order).toEqual(["first", "second"]);
+	});
+
+	it("should give up after the wait time", async () => {
+		vi.useFakeTimers();
+		const limiter = new ConcurrencyLimiter(1);
+
+		const release = await limiter.acquire("a");
+		const waiting = limiter.acquire("a", 1000);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(await waiting).toBeNull();
+
+		// The abandoned waiter must not receive the slot
+		release?.();
+		expect(limiter.activeCount("a")).toBe(0);
+	});
+
+	it("should stop waiting when the signal aborts", async () => {
+		const limiter = new ConcurrencyLimiter(1);
+		const controller = new AbortController();
+
+		await limiter.acquire("a");
+		const waiting = limiter.acquire("a", 60_000, controller.signal);
+		controller.abort();
+
+		expect(await waiting).toBeNull();
+		expect(await limiter.acquire("a", 1000, controller.signal)).toBeNull();
+	});
+
+	it("should reject invalid limits", () => {
+		expect(() => new ConcurrencyLimiter(0)).toThrow("positive integer");
+		expect(() => new ConcurrencyLimiter(1.5)).toThrow("positive integer");
+	});
+});
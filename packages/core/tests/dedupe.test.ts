@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+import { InFlightRegistry } from "../src/dedupe";
+import { deferred } from "./helpers";
+
+describe("InFlightRegistry", () => {
+	it("should share one execution between concurrent calls with the same key", async () => {
+		const registry = new InFlightRegistry();
+		const gate = deferred<{ success: true; data: string }>();
+		const run = vi.fn(() => gate.promise);
+
+		const calls = [registry.run("a", run), registry.run("a", run), registry.run("a", run)];
+		gate.resolve({ success: true, data: "report" });
+		const outcomes = await Promise.all(calls);
+
+		expect(run).toHaveBeenCalledOnce();
+		expect(outcomes.map(({ info }) => info)).toEqual([
+			{ joined: false, hits: 2 },
+			{ joined: true, hits: 2 },
+			{ joined: true, hits: 2 },
+		]);
+		expect(outcomes[1].result).toBe(outcomes[0].result);
+	});
+
+	it("should run separately for different keys", async () => {
+		const registry = new InFlightRegistry();
+		const run = vi.fn(async () => ({ success: true as const, data: 1 }));
+
+		await Promise.all([registry.run("a", run), registry.run("b", run)]);
+
+		expect(run).toHaveBeenCalledTimes(2);
+	});
+
+	it("should forget the execution once it settles", async () => {
+		const registry = new InFlightRegistry();
+		const run = vi.fn(async () => ({ success: true as const, data: 1 }));
+
+		await registry.run("a", run);
+		expect(registry.size).toBe(0);
+
+		await registry.run("a", run);
+		expect(run).toHaveBeenCalledTimes(2);
+	});
+
+	it("should pass the same error to every caller and then forget it", async () => {
+		const registry = new InFlightRegistry();
+		const gate = deferred<never>();
+		const error = new Error("db down");
+
+		const first = registry.run("a", () => gate.promise);
+		const second = registry.run("a", () => gate.promise);
+		gate.reject(error);
+
+		await expect(first).rejects.toBe(error);
+		await expect(second).rejects.toBe(error);
+		expect(registry.size).toBe(0);
+	});
+});
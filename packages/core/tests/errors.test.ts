@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { ActionError, isActionError } from "../src/errors";
+
+describe("ActionError", () => {
+	it("should default code and status", () => {
+		const error = new ActionError("Not allowed");
+		expect(error).toBeInstanceOf(Error);
+		expect(error.name).toBe("ActionError");
+		expect(error.message).toBe("Not allowed");
+		expect(error.code).toBe("ACTION_ERROR");
+		expect(error.status).toBe(400);
+	});
+
+	it("should keep the cause for server-side logging", () => {
+		const cause = new Error("row not found");
+		const error = new ActionError("Invoice not found", { code: "NOT_FOUND", status: 404, cause });
+		expect(error.code).toBe("NOT_FOUND");
+		expect(error.status).toBe(404);
+		expect(error.cause).toBe(cause);
+	});
+});
+
+describe("isActionError", () => {
+	it("should match ActionError instances", () => {
+		expect(isActionError(new ActionError("x"))).toBe(true);
+	});
+
+	it("should match ActionError-shaped errors from another package copy", () => {
+		const foreign = Object.assign(new Error("x"), { name: "ActionError", code: "C", status: 409 });
+		expect(isActionError(foreign)).toBe(true);
+	});
+
+	it("should reject plain errors and non-errors", () => {
+		expect(isActionError(new Error("x"))).toBe(false);
+		expect(isActionError({ name: "ActionError", code: "C", status: 400 })).toBe(false);
+		expect(isActionError("ActionError")).toBe(false);
+	});
+});
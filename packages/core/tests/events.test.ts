@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SecurityEventBus, type SecurityEventInfo } from "../src/events";
+import { createCtx } from "./helpers";
+
+const info: SecurityEventInfo = {
+	action: "anonymous",
+	userId: null,
+	ip: null,
+	key: "anonymous",
+	ctx: createCtx(),
+};
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("SecurityEventBus", () => {
+	it("should call the listeners of an event", () => {
+		const bus = new SecurityEventBus();
+		const first = vi.fn();
+		const second = vi.fn();
+		const other = vi.fn();
+
+		bus.on("action.success", first);
+		bus.on("action.success", second);
+		bus.on("action.error", other);
+		bus.emit("action.success", { ...info, data: 1 });
+
+		expect(first).toHaveBeenCalledWith({ ...info, data: 1 });
+		expect(second).toHaveBeenCalledOnce();
+		expect(other).not.toHaveBeenCalled();
+	});
+
+	it("should stop calling a listener after unsubscribing", () => {
+		const bus = new SecurityEventBus();
+		const listener = vi.fn();
+
+		const off = bus.on("action.success", listener);
+		off();
+		bus.emit("action.success", { ...info, data: 1 });
+
+		expect(listener).not.toHaveBeenCalled();
+		expect(bus.has("action.success")).toBe(false);
+	});
+
+	it("should report failing listeners without stopping the others", async () => {
+		const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+		const bus = new SecurityEventBus();
+		const listener = vi.fn();
+
+		bus.on("action.success", () => {
+			throw new Error("sync");
+		});
+		bus.on("action.success", async () => {
+			throw new Error("async");
+		});
+		bus.on("action.success", listener);
+		bus.emit("action.success", { ...info, data: 1 });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(listener).toHaveBeenCalledOnce();
+		expect(consoleSpy).toHaveBeenCalledTimes(2);
+		expect(consoleSpy).toHaveBeenCalledWith(
+			'[actionguard] "action.success" listener failed',
+			expect.any(Error),
+		);
+	});
+
+	it("should not wait for async listeners", () => {
+		const bus = new SecurityEventBus();
+		bus.on("action.success", () => new Promise(() => {}));
+
+		expect(bus.emit("action.success", { ...info, data: 1 })).toBeUndefined();
+	});
+});
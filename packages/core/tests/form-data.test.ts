@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createActionGuard } from "../src/builder";
+import { coerceToSchema, decodeFormData, isFormData } from "../src/form-data";
+
+function form(entries: Array<[string, string | File]>): FormData {
+	const formData = new FormData();
+	for (const [name, value] of entries) {
+		formData.append(name, value);
+	}
+	return formData;
+}
+
+describe("isFormData", () => {
+	it("should detect FormData instances only", () => {
+		expect(isFormData(new FormData())).toBe(true);
+		expect(isFormData({ get: () => null })).toBe(false);
+		expect(isFormData(null)).toBe(false);
+	});
+});
+
+describe("decodeFormData", () => {
+	it("should decode flat fields as strings", () => {
+		expect(
+			decodeFormData(
+				form([
+					["title", "Hello"],
+					["count", "3"],
+				]),
+			),
+		).toEqual({
+			title: "Hello",
+			count: "3",
+		});
+	});
+
+	it("should build nested objects and arrays from field names", () => {
+		const decoded = decodeFormData(
+			form([
+				["address.city", "Vienna"],
+				["address.lines[0]", "Main St 1"],
+				["address.lines[1]", "Floor 2"],
+				["items[0].sku", "A-1"],
+				["items[1].sku", "B-2"],
+			]),
+		);
+
+		expect(decoded).toEqual({
+			address: { city: "Vienna", lines: ["Main St 1", "Floor 2"] },
+			items: [{ sku: "A-1" }, { sku: "B-2" }],
+		});
+	});
+
+	it("should collect repeated field names and [] suffixes into arrays", () => {
+		const decoded = decodeFormData(
+			form([
+				["tags", "a"],
+				["tags", "b"],
+				["roles[]", "admin"],
+				["roles[]", "member"],
+			]),
+		);
+
+		expect(decoded).toEqual({ tags: ["a", "b"], roles: ["admin", "member"] });
+	});
+
+	it("should compact sparse indexes instead of allocating huge arrays", () => {
+		const decoded = decodeFormData(
+			form([
+				["list[999999999]", "last"],
+				["list[3]", "first"],
+			]),
+		);
+		expect(decoded).toEqual({ list: ["first", "last"] });
+	});
+
+	it("should ignore Next.js internal action fields", () => {
+		const decoded = decodeFormData(
+			form([
+				["$ACTION_ID_abc123", ""],
+				["$ACTION_KEY", "k1"],
+				["name", "Ada"],
+			]),
+		);
+
+		expect(decoded).toEqual({ name: "Ada" });
+	});
+
+	it("should drop prototype-polluting field names", () => {
+		const decoded = decodeFormData(
+			form([
+				["__proto__.polluted", "yes"],
+				["a.constructor.prototype.polluted", "yes"],
+				["safe", "ok"],
+			]),
+		);
+
+		expect(decoded).toEqual({ safe: "ok" });
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+	});
+
+	it("should keep File entries and drop empty file inputs", () => {
+		const avatar = new File(["png-bytes"], "avatar.png", { type: "image/png" });
+		const decoded = decodeFormData(
+			form([
+				["avatar", avatar],
+				["attachment", new File([], "")],
+			]),
+		);
+
+		expect(decoded.avatar).toBe(avatar);
+		expect("attachment" in decoded).toBe(false);
+	});
+
+	it("should coerce values toward the schema", () => {
+		const schema = z.object({
+			quantity: z.number().int(),
+			price: z.number().optional(),
+			subscribe: z.boolean(),
+			archived: z.boolean().default(false),
+			dueDate: z.date(),
+			tags: z.array(z.string()),
+			lines: z.array(z.object({ qty: z.number() })),
+			note: z.string(),
+		});
+
+		const decoded = decodeFormData(
+			form([
+				["quantity", "3"],
+				["price", ""],
+				["subscribe", "on"],
+				["dueDate", "2026-01-31"],
+				["tags", "only-one"],
+				["lines[0].qty", "2"],
+				["note", "42"],
+			]),
+			schema,
+		);
+
+		expect(decoded).toEqual({
+			quantity: 3,
+			price: undefined,
+			subscribe: true,
+			dueDate: new Date("2026-01-31"),
+			tags: ["only-one"],
+			lines: [{ qty: 2 }],
+			note: "42",
+		});
+		expect(schema.safeParse(decoded).success).toBe(true);
+	});
+});
+
+describe("coerceToSchema", () => {
+	it("should leave values that cannot be coerced for the schema to reject", () => {
+		expect(coerceToSchema("abc", z.number())).toBe("abc");
+		expect(coerceToSchema("maybe", z.boolean())).toBe("maybe");
+		expect(coerceToSchema("not a date", z.date())).toBe("not a date");
+	});
+
+	it("should see through refinements, transforms and nullable wrappers", () => {
+		const schema = z
+			.object({
+				age: z
+					.number()
+					.nullable()
+					.refine((n) => n === null || n >= 18),
+			})
+			.transform((data) => data);
+
+		expect(coerceToSchema({ age: "21" }, schema)).toEqual({ age: 21 });
+	});
+
+	it("should coerce record values", () => {
+		expect(coerceToSchema({ a: "1", b: "2" }, z.record(z.string(), z.number()))).toEqual({
+			a: 1,
+			b: 2,
+		});
+	});
+});
+
+describe("FormData actions", () => {
+	const schema = z.object({
+		title: z.string().min(1),
+		amount: z.number().positive(),
+		tags: z.array(z.string()),
+	});
+
+	it("should decode a posted form before the schema step", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const createInvoice = guard.schema(schema).action(async ({ input }) => input);
+
+		const result = await createInvoice(
+			form([
+				["title", "Consulting"],
+				["amount", "1500"],
+				["tags", "q1"],
+			]),
+		);
+
+		expect(result).toEqual({
+			success: true,
+			data: { title: "Consulting", amount: 1500, tags: ["q1"] },
+		});
+	});
+
+	it("should support the useActionState (prevState, formData) signature", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const createInvoice = guard.schema(schema).action(async ({ input, prevState }) => ({
+			input,
+			prevState,
+		}));
+
+		const previous = { success: false, error: "Validation failed" };
+		const result = await createInvoice(
+			previous,
+			form([
+				["title", "Consulting"],
+				["amount", "10"],
+			]),
+		);
+
+		expect(result.success).toBe(false);
+
+		const next = await createInvoice(
+			result,
+			form([
+				["title", "Consulting"],
+				["amount", "10"],
+				["tags[]", "x"],
+			]),
+		);
+		expect(next).toEqual({
+			success: true,
+			data: { input: { title: "Consulting", amount: 10, tags: ["x"] }, prevState: result },
+		});
+	});
+
+	it("should take object payloads as the input with actionState()", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const counter = guard
+			.actionState()
+			.schema(z.object({ n: z.number() }))
+			.action(async ({ input, prevState }) => ({ n: input.n, prevState }));
+
+		expect(await counter({ count: 1 }, { n: 2 })).toEqual({
+			success: true,
+			data: { n: 2, prevState: { count: 1 } },
+		});
+		expect(await counter(undefined, { n: 3 })).toEqual({
+			success: true,
+			data: { n: 3, prevState: undefined },
+		});
+	});
+
+	it("should return field errors for invalid form values", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const createInvoice = guard.schema(schema).action(async ({ input }) => input);
+
+		const result = await createInvoice(
+			form([
+				["title", ""],
+				["amount", "-5"],
+				["tags", "a"],
+			]),
+		);
+
+		expect(result).toMatchObject({
+			success: false,
+			code: "VALIDATION_ERROR",
+			fieldErrors: {
+				title: expect.any(Array),
+				amount: expect.any(Array),
+			},
+		});
+	});
+
+	it("should keep uploaded files through sanitize()", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const upload = guard
+			.schema(z.object({ caption: z.string(), file: z.instanceof(File) }))
+			.sanitize()
+			.action(async ({ input }) => ({ caption: input.caption, size: input.file.size }));
+
+		const result = await upload(
+			form([
+				["caption", "<b>hi</b>"],
+				["file", new File(["12345"], "a.txt")],
+			]),
+		);
+
+		expect(result).toEqual({ success: true, data: { caption: "&lt;b&gt;hi&lt;/b&gt;", size: 5 } });
+	});
+
+	it("should decode without coercion when no schema is chained", async () => {
+		const guard = createActionGuard({ headers: () => ({}) });
+		const echo = guard.action(async ({ input }) => input);
+
+		const result = await echo(form([["count", "3"]]));
+
+		expect(result).toEqual({ success: true, data: { count: "3" } });
+	});
+});
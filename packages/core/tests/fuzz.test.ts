@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { customAuth } from "../src/auth/custom";
+import { createActionGuard } from "../src/builder";
+import { describeSchema } from "../src/schema-inspect";
+import { fuzzAction, generateFuzzCases } from "../src/testing";
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+const postSchema = z.object({
+	title: z.string().min(1).max(50),
+	tags: z.array(z.string()).max(5).optional(),
+	priority: z.number().int().min(1).max(5),
+});
+
+// ---------------------------------------------------------------------------
+// Case generation
+// ---------------------------------------------------------------------------
+describe("generateFuzzCases", () => {
+	it("should generate valid inputs that pass the schema", () => {
+		const cases = generateFuzzCases(describeSchema(postSchema), { runs: 20 });
+		const valid = cases.filter((testCase) => testCase.category === "valid");
+
+		expect(valid).toHaveLength(20);
+		for (const testCase of valid) {
+			expect(postSchema.safeParse(testCase.input).success).toBe(true);
+		}
+	});
+
+	it("should generate boundary values for every property", () => {
+		const labels = generateFuzzCases(describeSchema(postSchema)).map((testCase) => testCase.label);
+
+		expect(labels).toContain("title: max length + 1");
+		expect(labels).toContain("title: empty string");
+		expect(labels).toContain("title: missing");
+		expect(labels).toContain("priority: fraction");
+		expect(labels).toContain("priority: maximum + 1");
+		expect(labels).toContain("tags: max items + 1");
+		expect(labels).not.toContain("tags: missing");
+	});
+
+	it("should generate XSS, wrong-type, pollution and oversized inputs", () => {
+		const cases = generateFuzzCases(describeSchema(postSchema));
+		const labels = cases.map((testCase) => testCase.label);
+
+		expect(cases.filter((testCase) => testCase.payload).length).toBeGreaterThan(0);
+		expect(labels).toContain("priority: wrong type (numeric string)");
+		expect(labels).toContain("title: 1 MB string");
+		expect(labels).toContain("input: 100k item array");
+		expect(labels.some((label) => label.includes("prototype pollution"))).toBe(true);
+	});
+
+	it("should keep boundary cases on a copy of the base input", () => {
+		const cases = generateFuzzCases(describeSchema(postSchema));
+		const tooLong = cases.find((testCase) => testCase.label === "title: max length + 1");
+
+		expect(tooLong?.input).toMatchObject({ title: "a".repeat(51) });
+		expect((tooLong?.input as { priority: number }).priority).toBeGreaterThanOrEqual(1);
+	});
+
+	it("should be reproducible from a seed", () => {
+		const shape = describeSchema(postSchema);
+
+		expect(generateFuzzCases(shape, { seed: 7 })).toEqual(generateFuzzCases(shape, { seed: 7 }));
+		expect(generateFuzzCases(shape, { seed: 7 })).not.toEqual(
+			generateFuzzCases(shape, { seed: 8 }),
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Running actions
+// ---------------------------------------------------------------------------
+describe("fuzzAction", () => {
+	it("should report no findings for a validated, sanitized action", async () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const guard = createActionGuard();
+		const action = guard
+			.schema(postSchema)
+			.sanitize()
+			.action(async ({ input }) => input);
+
+		const report = await fuzzAction(action);
+
+		expect(report.findings).toEqual([]);
+		expect(report.outcomes.OK).toBeGreaterThan(0);
+		expect(report.outcomes.VALIDATION_ERROR).toBeGreaterThan(0);
+		expect(Object.values(report.outcomes).reduce((sum, count) => sum + count, 0)).toBe(
+			report.cases,
+		);
+	});
+
+	it("should report handler errors as crashes", async () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const guard = createActionGuard();
+		const action = guard.schema(postSchema).action(async ({ input }) => {
+			if (input.title.includes("<")) {
+				throw new Error("markup not supported");
+			}
+			return { ok: true };
+		});
+
+		const report = await fuzzAction(action);
+
+		expect(report.findings.length).toBeGreaterThan(0);
+		expect(report.findings.every((finding) => finding.kind === "crash")).toBe(true);
+		expect(report.findings[0].result).toMatchObject({ success: false, code: "INTERNAL_ERROR" });
+	});
+
+	it("should report markup echoed back without sanitizing", async () => {
+		const guard = createActionGuard();
+		const action = guard.schema(postSchema).action(async ({ input }) => input.title);
+
+		const report = await fuzzAction(action);
+		const echoes = report.findings.filter((finding) => finding.kind === "unsanitized-echo");
+
+		expect(echoes.length).toBeGreaterThan(0);
+		expect(echoes[0].label).toBe("title: XSS");
+	});
+
+	it("should report codes outside of allowedCodes", async () => {
+		const guard = createActionGuard();
+		const action = guard.schema(postSchema).action(async () => "ok");
+
+		const strict = await fuzzAction(action, { allowedCodes: [] });
+		const lenient = await fuzzAction(action);
+
+		expect(strict.findings.every((finding) => finding.kind === "unexpected-code")).toBe(true);
+		expect(strict.findings).toHaveLength(strict.outcomes.VALIDATION_ERROR);
+		expect(lenient.findings).toEqual([]);
+	});
+
+	it("should report and clean up prototype pollution", async () => {
+		const guard = createActionGuard();
+		const action = guard.schema(postSchema.passthrough()).action(async ({ input }) => {
+			// Naive deep merge, the classic pollution bug
+			const merge = (target: Record<string, unknown>, source: Record<string, unknown>) => {
+				for (const key of Object.keys(source)) {
+					const value = source[key];
+					if (value && typeof value === "object") {
+						target[key] ??= {};
+						merge(target[key] as Record<string, unknown>, value as Record<string, unknown>);
+					} else {
+						target[key] = value;
+					}
+				}
+			};
+			merge({}, input as Record<string, unknown>);
+			return "ok";
+		});
+
+		const report = await fuzzAction(action);
+
+		expect(report.findings.map((finding) => finding.kind)).toContain("prototype-pollution");
+		expect(Object.hasOwn(Object.prototype, "polluted")).toBe(false);
+	});
+
+	it("should run every case under the given request", async () => {
+		const guard = createActionGuard({ auth: customAuth(async () => null) });
+		const action = guard
+			.auth()
+			.schema(postSchema)
+			.action(async () => "ok");
+
+		const signedOut = await fuzzAction(action);
+		const signedIn = await fuzzAction(action, { request: { user: { id: "user-1" } } });
+
+		expect(signedOut.outcomes.AUTH_FAILED).toBe(signedOut.cases);
+		expect(signedIn.outcomes.AUTH_FAILED).toBeUndefined();
+		expect(signedIn.findings).toEqual([]);
+	});
+
+	it("should throw for an action without a schema step", async () => {
+		const action = createActionGuard().action(async () => "ok");
+
+		await expect(fuzzAction(action)).rejects.toThrow(
+			"fuzzAction() needs an action with a .schema() step",
+		);
+	});
+});
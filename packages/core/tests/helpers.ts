@@ -0,0 +1,24 @@
+import type { MiddlewareContext } from "../src/types";
+
+/** Middleware context with empty defaults, for tests that call a module directly. */
+export function createCtx(overrides: Partial<MiddlewareContext> = {}): MiddlewareContext {
+	return {
+		user: null,
+		input: undefined,
+		headers: new Headers(),
+		metadata: {},
+		signal: new AbortController().signal,
+		...overrides,
+	};
+}
+
+/** Promise settled from the outside, to hold a handler or store call open. */
+export function deferred<T = void>() {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemoryIdempotencyStore, readIdempotencyKey } from "../src/idempotency";
+import { createCtx } from "./helpers";
+
+// ---------------------------------------------------------------------------
+// MemoryIdempotencyStore
+// ---------------------------------------------------------------------------
+describe("MemoryIdempotencyStore", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should claim a free key and report it as pending afterwards", async () => {
+		const store = new MemoryIdempotencyStore();
+
+		expect(await store.begin("k1", 1000)).toBeNull();
+		expect(await store.begin("k1", 1000)).toMatchObject({ status: "pending" });
+	});
+
+	it("should return the completed result until the TTL expires", async () => {
+		vi.useFakeTimers();
+		const store = new MemoryIdempotencyStore();
+		const result = { success: true as const, data: { id: "inv-1" } };
+
+		await store.begin("k1", 1000);
+		await store.complete("k1", result, 1000);
+
+		expect(await store.begin("k1", 1000)).toMatchObject({ status: "completed", result });
+
+		vi.advanceTimersByTime(1000);
+		expect(await store.begin("k1", 1000)).toBeNull();
+	});
+
+	it("should free a released key", async () => {
+		const store = new MemoryIdempotencyStore();
+
+		await store.begin("k1", 1000);
+		await store.release("k1");
+
+		expect(await store.begin("k1", 1000)).toBeNull();
+	});
+
+	it("should remove expired records of keys that never come back", async () => {
+		vi.useFakeTimers();
+		const store = new MemoryIdempotencyStore();
+		const records = (store as unknown as { records: Map<string, unknown> }).records;
+
+		for (let i = 0; i < 100; i++) {
+			await store.begin(`k${i}`, 1000);
+		}
+		vi.advanceTimersByTime(60_000);
+		await store.begin("fresh", 1000);
+
+		expect([...records.keys()]).toEqual(["fresh"]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// readIdempotencyKey
+// ---------------------------------------------------------------------------
+describe("readIdempotencyKey", () => {
+	it("should read the default header", () => {
+		const ctx = createCtx({ headers: new Headers({ "Idempotency-Key": " abc-123 " }) });
+
+		expect(readIdempotencyKey(ctx, {})).toBe("abc-123");
+	});
+
+	it("should read a custom header", () => {
+		const ctx = createCtx({ headers: new Headers({ "x-request-id": "req-1" }) });
+
+		expect(readIdempotencyKey(ctx, { header: "x-request-id" })).toBe("req-1");
+		expect(readIdempotencyKey(ctx, {})).toBeUndefined();
+	});
+
+	it("should read an input field instead of the header", () => {
+		const ctx = createCtx({
+			input: { idempotencyKey: "form-1" },
+			headers: new Headers({ "idempotency-key": "header-1" }),
+		});
+
+		expect(readIdempotencyKey(ctx, { field: "idempotencyKey" })).toBe("form-1");
+	});
+
+	it("should ignore missing, empty, non-string and oversized keys", () => {
+		expect(readIdempotencyKey(createCtx({ input: {} }), { field: "key" })).toBeUndefined();
+		expect(readIdempotencyKey(createCtx({ input: { key: 42 } }), { field: "key" })).toBeUndefined();
+		expect(
+			readIdempotencyKey(createCtx({ input: { key: "  " } }), { field: "key" }),
+		).toBeUndefined();
+		expect(
+			readIdempotencyKey(createCtx({ input: { key: "x".repeat(256) } }), { field: "key" }),
+		).toBeUndefined();
+		expect(readIdempotencyKey(createCtx({ input: "key" }), { field: "length" })).toBeUndefined();
+	});
+
+	it("should not read inherited properties", () => {
+		const ctx = createCtx({ input: {} });
+
+		expect(readIdempotencyKey(ctx, { field: "toString" })).toBeUndefined();
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { clientIp, resolveRequestKey, stableStringify, userId, userScope } from "../src/keys";
+import { createCtx } from "./helpers";
+
+// ---------------------------------------------------------------------------
+// userId / clientIp
+// ---------------------------------------------------------------------------
+describe("userId", () => {
+	it("should read the id of object users and stringify primitive users", () => {
+		expect(userId({ id: "user-1" })).toBe("user-1");
+		expect(userId({ id: 42 })).toBe("42");
+		expect(userId("user-1")).toBe("user-1");
+		expect(userId(null)).toBeNull();
+	});
+
+	it("should return null for users without a usable id", () => {
+		expect(userId({ email: "alice@example.com" })).toBeNull();
+		expect(userId({ id: "" })).toBeNull();
+		expect(userId({ id: null })).toBeNull();
+		expect(userId("")).toBeNull();
+	});
+});
+
+describe("clientIp", () => {
+	it("should prefer the first x-forwarded-for entry", () => {
+		const headers = new Headers({
+			"x-forwarded-for": " 203.0.113.7 , 10.0.0.1",
+			"x-real-ip": "10.0.0.2",
+		});
+
+		expect(clientIp(headers)).toBe("203.0.113.7");
+	});
+
+	it("should fall back to x-real-ip, then null", () => {
+		expect(clientIp(new Headers({ "x-real-ip": "10.0.0.2" }))).toBe("10.0.0.2");
+		expect(clientIp(new Headers({ "x-real-ip": " " }))).toBeNull();
+		expect(clientIp(new Headers())).toBeNull();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// userScope
+// ---------------------------------------------------------------------------
+describe("userScope", () => {
+	it("should identify users by id", () => {
+		expect(userScope({ id: "user-1", name: "A" })).toBe("user:user-1");
+		expect(userScope({ id: 42 })).toBe("user:42");
+		expect(userScope("user-1")).toBe("user:user-1");
+	});
+
+	it("should use the anonymous scope without a user", () => {
+		expect(userScope(null)).toBe("anonymous");
+		expect(userScope(undefined)).toBe("anonymous");
+	});
+
+	it("should tell users without an id apart by a hash of the user", () => {
+		const alice = userScope({ email: "alice@example.com" });
+
+		expect(alice).toMatch(/^user:#[0-9a-f]{64}$/);
+		expect(alice).not.toContain("alice");
+		expect(userScope({ email: "bob@example.com" })).not.toBe(alice);
+		expect(userScope({ email: "alice@example.com" })).toBe(alice);
+	});
+
+	it("should prefer the scope function", () => {
+		const scope = (user: { email: string }) => user.email;
+
+		expect(userScope({ email: "alice@example.com" }, scope)).toBe("user:alice@example.com");
+		expect(userScope(null, scope)).toBe("anonymous");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// resolveRequestKey
+// ---------------------------------------------------------------------------
+describe("resolveRequestKey", () => {
+	it("should prefer the custom key function", () => {
+		const ctx = createCtx({ user: { id: "user-1" } });
+
+		expect(resolveRequestKey(ctx, () => "custom")).toBe("custom");
+	});
+
+	it("should use the user id, then the client IP", () => {
+		const headers = new Headers({
+			"x-forwarded-for": "10.0.0.1, 10.0.0.2",
+			"x-real-ip": "10.0.0.3",
+		});
+
+		expect(resolveRequestKey(createCtx({ user: { id: "user-1" }, headers }))).toBe("user:user-1");
+		expect(resolveRequestKey(createCtx({ headers }))).toBe("ip:10.0.0.1");
+		expect(
+			resolveRequestKey(createCtx({ headers: new Headers({ "x-real-ip": " 10.0.0.3 " }) })),
+		).toBe("ip:10.0.0.3");
+		expect(resolveRequestKey(createCtx())).toBe("anonymous");
+	});
+
+	it("should key users without an id by IP", () => {
+		const headers = new Headers({ "x-real-ip": "10.0.0.3" });
+
+		expect(resolveRequestKey(createCtx({ user: { email: "a@example.com" }, headers }))).toBe(
+			"ip:10.0.0.3",
+		);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// stableStringify
+// ---------------------------------------------------------------------------
+describe("stableStringify", () => {
+	it("should ignore property order at every depth", () => {
+		expect(stableStringify({ b: 1, a: { d: [1, { y: 2, x: 1 }], c: 3 } })).toBe(
+			stableStringify({ a: { c: 3, d: [1, { x: 1, y: 2 }] }, b: 1 }),
+		);
+	});
+
+	it("should keep array order significant", () => {
+		expect(stableStringify([1, 2])).not.toBe(stableStringify([2, 1]));
+	});
+
+	it("should serialize bigints, dates and undefined", () => {
+		expect(stableStringify({ n: 10n })).toBe('{"n":"10n"}');
+		expect(stableStringify(new Date(0))).toBe('"1970-01-01T00:00:00.000Z"');
+		expect(stableStringify(undefined)).toBe("undefined");
+	});
+});
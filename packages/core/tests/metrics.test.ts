@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { MetricsRegistry, renderPrometheus } from "../src/metrics";
+
+const labels = { action: "CREATE_POST", resource: "posts" };
+
+describe("MetricsRegistry", () => {
+	it("should count calls by outcome code", () => {
+		const registry = new MetricsRegistry();
+
+		registry.recordInvocation(labels, "OK", 0.01);
+		registry.recordInvocation(labels, "OK", 0.02);
+		registry.recordInvocation(labels, "RATE_LIMITED", 0.001);
+
+		const [invocations] = registry.collect();
+		expect(invocations.samples).toEqual([
+			{ labels: { ...labels, code: "OK" }, value: 2 },
+			{ labels: { ...labels, code: "RATE_LIMITED" }, value: 1 },
+		]);
+	});
+
+	it("should bucket latencies cumulatively", () => {
+		const registry = new MetricsRegistry({ buckets: [0.1, 0.01] });
+
+		registry.recordInvocation(labels, "OK", 0.005);
+		registry.recordInvocation(labels, "OK", 0.05);
+		registry.recordInvocation(labels, "OK", 1);
+
+		const [, duration] = registry.collect();
+		expect(duration.samples).toEqual([
+			{
+				labels,
+				buckets: [
+					{ le: 0.01, count: 1 },
+					{ le: 0.1, count: 2 },
+				],
+				sum: 1.055,
+				count: 3,
+			},
+		]);
+	});
+
+	it("should record step latency per step", () => {
+		const registry = new MetricsRegistry();
+
+		registry.recordStep({ action: "anonymous" }, "auth", 0.002);
+		registry.recordStep({ action: "anonymous" }, "handler", 0.2);
+
+		const [, , steps] = registry.collect();
+		expect(steps.samples.map((sample) => sample.labels)).toEqual([
+			{ action: "anonymous", step: "auth" },
+			{ action: "anonymous", step: "handler" },
+		]);
+	});
+
+	it("should return snapshots that do not change with later calls", () => {
+		const registry = new MetricsRegistry();
+		registry.recordInvocation(labels, "OK", 0.01);
+
+		const [invocations] = registry.collect();
+		registry.recordInvocation(labels, "OK", 0.01);
+
+		expect(invocations.samples).toEqual([{ labels: { ...labels, code: "OK" }, value: 1 }]);
+	});
+});
+
+describe("renderPrometheus", () => {
+	it("should render counters and histograms in exposition format", () => {
+		const registry = new MetricsRegistry({ buckets: [0.1] });
+		registry.recordInvocation(labels, "AUTH_FAILED", 0.05);
+		registry.recordStep(labels, "auth", 0.05);
+
+		expect(renderPrometheus(registry)).toBe(
+			[
+				"# HELP actionguard_invocations_total Action calls by outcome code.",
+				"# TYPE actionguard_invocations_total counter",
+				'actionguard_invocations_total{action="CREATE_POST",resource="posts",code="AUTH_FAILED"} 1',
+				"# HELP actionguard_invocation_duration_seconds Action call latency in seconds.",
+				"# TYPE actionguard_invocation_duration_seconds histogram",
+				'actionguard_invocation_duration_seconds_bucket{action="CREATE_POST",resource="posts",le="0.1"} 1',
+				'actionguard_invocation_duration_seconds_bucket{action="CREATE_POST",resource="posts",le="+Inf"} 1',
+				'actionguard_invocation_duration_seconds_sum{action="CREATE_POST",resource="posts"} 0.05',
+				'actionguard_invocation_duration_seconds_count{action="CREATE_POST",resource="posts"} 1',
+				"# HELP actionguard_step_duration_seconds Pipeline step latency in seconds. Wrapping steps include the steps after them.",
+				"# TYPE actionguard_step_duration_seconds histogram",
+				'actionguard_step_duration_seconds_bucket{action="CREATE_POST",resource="posts",step="auth",le="0.1"} 1',
+				'actionguard_step_duration_seconds_bucket{action="CREATE_POST",resource="posts",step="auth",le="+Inf"} 1',
+				'actionguard_step_duration_seconds_sum{action="CREATE_POST",resource="posts",step="auth"} 0.05',
+				'actionguard_step_duration_seconds_count{action="CREATE_POST",resource="posts",step="auth"} 1',
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should escape label values", () => {
+		const registry = new MetricsRegistry();
+		registry.recordInvocation({ action: 'say "hi"\\\n' }, "OK", 0);
+
+		expect(renderPrometheus(registry)).toContain(
+			'actionguard_invocations_total{action="say \\"hi\\"\\\\\\n",code="OK"} 1',
+		);
+	});
+});
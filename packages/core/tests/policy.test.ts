@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import { and, definePolicy, evaluatePolicy, not, or, policyName } from "../src/policy";
+
+interface Args {
+	user: { id: string; orgId: string; role: string };
+	input: { orgId: string };
+}
+
+const sameOrg = definePolicy("sameOrg", ({ user, input }: Args) => user.orgId === input.orgId);
+const isAdmin = definePolicy("isAdmin", async ({ user }: Args) => user.role === "admin");
+
+const member = { id: "u1", orgId: "org-1", role: "member" };
+const admin = { id: "u2", orgId: "org-2", role: "admin" };
+
+// ---------------------------------------------------------------------------
+// definePolicy / evaluatePolicy
+// ---------------------------------------------------------------------------
+describe("definePolicy", () => {
+	it("should report the decision with the policy name", async () => {
+		expect(await sameOrg.evaluate({ user: member, input: { orgId: "org-1" } })).toEqual({
+			allowed: true,
+			policy: "sameOrg",
+		});
+		expect(await sameOrg.evaluate({ user: member, input: { orgId: "org-2" } })).toEqual({
+			allowed: false,
+			policy: "sameOrg",
+		});
+	});
+
+	it("should only allow on a literal true", async () => {
+		const truthy = definePolicy("truthy", () => "yes" as unknown as boolean);
+
+		expect((await truthy.evaluate({})).allowed).toBe(false);
+	});
+});
+
+describe("evaluatePolicy", () => {
+	it("should accept plain functions named after the function", async () => {
+		function ownsAccount({ user }: { user: { id: string } }) {
+			return user.id === "u1";
+		}
+
+		expect(await evaluatePolicy(ownsAccount, { user: { id: "u1" } })).toEqual({
+			allowed: true,
+			policy: "ownsAccount",
+		});
+		expect(await evaluatePolicy(() => false, {})).toEqual({
+			allowed: false,
+			policy: "anonymous",
+		});
+	});
+});
+
+describe("policyName", () => {
+	it("should name policies and plain functions", () => {
+		const isOwner = () => true;
+
+		expect(policyName(sameOrg)).toBe("sameOrg");
+		expect(policyName(and(sameOrg, isAdmin))).toBe("and(sameOrg, isAdmin)");
+		expect(policyName(isOwner)).toBe("isOwner");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Combinators
+// ---------------------------------------------------------------------------
+describe("and", () => {
+	it("should be decided by the first denying policy", async () => {
+		const policy = and(isAdmin, sameOrg);
+
+		expect(policy.name).toBe("and(isAdmin, sameOrg)");
+		expect(await policy.evaluate({ user: member, input: { orgId: "org-1" } })).toEqual({
+			allowed: false,
+			policy: "isAdmin",
+		});
+		expect(await policy.evaluate({ user: admin, input: { orgId: "org-2" } })).toEqual({
+			allowed: true,
+			policy: "and(isAdmin, sameOrg)",
+		});
+	});
+
+	it("should stop at the first denial", async () => {
+		const later = vi.fn().mockReturnValue(true);
+
+		await and(() => false, later).evaluate({});
+
+		expect(later).not.toHaveBeenCalled();
+	});
+});
+
+describe("or", () => {
+	it("should be decided by the first allowing policy", async () => {
+		const policy = or(isAdmin, sameOrg);
+
+		expect(await policy.evaluate({ user: member, input: { orgId: "org-1" } })).toEqual({
+			allowed: true,
+			policy: "sameOrg",
+		});
+		expect(await policy.evaluate({ user: member, input: { orgId: "org-3" } })).toEqual({
+			allowed: false,
+			policy: "or(isAdmin, sameOrg)",
+		});
+	});
+});
+
+describe("not", () => {
+	it("should invert the decision and keep the deciding name", async () => {
+		const policy = not(or(isAdmin, sameOrg));
+
+		expect(policy.name).toBe("not(or(isAdmin, sameOrg))");
+		expect(await policy.evaluate({ user: member, input: { orgId: "org-1" } })).toEqual({
+			allowed: false,
+			policy: "not(sameOrg)",
+		});
+		expect(await policy.evaluate({ user: member, input: { orgId: "org-3" } })).toEqual({
+			allowed: true,
+			policy: "not(or(isAdmin, sameOrg))",
+		});
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { NextAuthUser } from "../src/auth/next-auth";
+import type { SupabaseUser } from "../src/auth/supabase";
+import { defaultRoleExtractor, expandRoles, hasAnyRole } from "../src/rbac";
+
+// ---------------------------------------------------------------------------
+// defaultRoleExtractor
+// ---------------------------------------------------------------------------
+describe("defaultRoleExtractor", () => {
+	it("should read the Supabase role and app_metadata roles", () => {
+		const user: SupabaseUser = {
+			id: "u1",
+			role: "authenticated",
+			app_metadata: { roles: ["admin", "billing"] },
+			user_metadata: {},
+		};
+
+		expect(defaultRoleExtractor(user)).toEqual(["authenticated", "admin", "billing"]);
+	});
+
+	it("should read role and roles claims from a NextAuth user", () => {
+		const user: NextAuthUser = { id: "u1", role: "member", roles: ["editor", "member"] };
+
+		expect(defaultRoleExtractor(user)).toEqual(["member", "editor"]);
+	});
+
+	it("should ignore non-string and empty values", () => {
+		expect(defaultRoleExtractor({ role: 1, roles: ["", null, "admin"] })).toEqual(["admin"]);
+		expect(defaultRoleExtractor({ app_metadata: "admin" })).toEqual([]);
+		expect(defaultRoleExtractor(null)).toEqual([]);
+		expect(defaultRoleExtractor("admin")).toEqual([]);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// expandRoles
+// ---------------------------------------------------------------------------
+describe("expandRoles", () => {
+	it("should apply the default owner > admin > member hierarchy", () => {
+		expect(expandRoles(["owner"])).toEqual(new Set(["owner", "admin", "member"]));
+		expect(expandRoles(["admin"])).toEqual(new Set(["admin", "member"]));
+		expect(expandRoles(["member"])).toEqual(new Set(["member"]));
+	});
+
+	it("should use a custom hierarchy", () => {
+		const hierarchy = { editor: ["viewer"], publisher: ["editor", "reviewer"] };
+
+		expect(expandRoles(["publisher"], hierarchy)).toEqual(
+			new Set(["publisher", "editor", "viewer", "reviewer"]),
+		);
+		expect(expandRoles(["owner"], hierarchy)).toEqual(new Set(["owner"]));
+	});
+
+	it("should stop on cycles", () => {
+		expect(expandRoles(["a"], { a: ["b"], b: ["a"] })).toEqual(new Set(["a", "b"]));
+	});
+
+	it("should not read inherited object properties as roles", () => {
+		expect(expandRoles(["constructor", "toString"])).toEqual(new Set(["constructor", "toString"]));
+	});
+});
+
+// ---------------------------------------------------------------------------
+// hasAnyRole
+// ---------------------------------------------------------------------------
+describe("hasAnyRole", () => {
+	it("should match any required role, including inherited ones", async () => {
+		const owner = { role: "owner" };
+
+		expect(await hasAnyRole(owner, ["member"])).toBe(true);
+		expect(await hasAnyRole(owner, ["billing", "admin"])).toBe(true);
+		expect(await hasAnyRole({ role: "member" }, ["admin"])).toBe(false);
+	});
+
+	it("should use a custom async extractor", async () => {
+		const user = { id: "u1", permissions: { level: "admin" } };
+		const getRoles = async (u: typeof user) => u.permissions.level;
+
+		expect(await hasAnyRole(user, ["member"], { getRoles })).toBe(true);
+		expect(await hasAnyRole(user, ["member"], { getRoles, hierarchy: {} })).toBe(false);
+	});
+
+	it("should reject users without roles", async () => {
+		expect(await hasAnyRole({ id: "u1" }, ["member"])).toBe(false);
+		expect(await hasAnyRole({ id: "u1" }, ["member"], { getRoles: () => null })).toBe(false);
+	});
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { nextHeaders, resolveRequestHeaders } from "../src/request";
+
+const nextMock = vi.hoisted(() => ({
+	headers: vi.fn(),
+	cookies: vi.fn(),
+}));
+
+vi.mock("next/headers", () => nextMock);
+
+afterEach(() => {
+	nextMock.headers.mockReset();
+	nextMock.cookies.mockReset();
+});
+
+describe("resolveRequestHeaders", () => {
+	it("should accept a plain object from the source", async () => {
+		const headers = await resolveRequestHeaders(() => ({ "x-forwarded-for": "1.2.3.4" }));
+		expect(headers).toBeInstanceOf(Headers);
+		expect(headers.get("x-forwarded-for")).toBe("1.2.3.4");
+	});
+
+	it("should accept an async source returning Headers", async () => {
+		const source = new Headers({ authorization: "Bearer abc" });
+		const headers = await resolveRequestHeaders(async () => source);
+		expect(headers.get("authorization")).toBe("Bearer abc");
+	});
+
+	it("should return a copy so steps cannot mutate the source", async () => {
+		const source = new Headers({ cookie: "a=1" });
+		const headers = await resolveRequestHeaders(() => source);
+		headers.set("cookie", "b=2");
+		expect(source.get("cookie")).toBe("a=1");
+	});
+
+	it("should default to next/headers when no source is configured", async () => {
+		nextMock.headers.mockResolvedValue(new Headers({ "x-real-ip": "10.0.0.1" }));
+		nextMock.cookies.mockResolvedValue({ getAll: () => [] });
+
+		const headers = await resolveRequestHeaders();
+		expect(headers.get("x-real-ip")).toBe("10.0.0.1");
+	});
+});
+
+describe("nextHeaders", () => {
+	it("should rebuild the cookie header from the cookie store", async () => {
+		nextMock.headers.mockResolvedValue(new Headers({ cookie: "stale=1" }));
+		nextMock.cookies.mockResolvedValue({
+			getAll: () => [
+				{ name: "session", value: "abc" },
+				{ name: "actionguard-csrf", value: "token" },
+			],
+		});
+
+		const headers = await nextHeaders();
+		expect(headers.get("cookie")).toBe("session=abc; actionguard-csrf=token");
+	});
+
+	it("should keep the original cookie header when the cookie store is empty", async () => {
+		nextMock.headers.mockResolvedValue(new Headers({ cookie: "session=abc" }));
+		nextMock.cookies.mockResolvedValue({ getAll: () => [] });
+
+		const headers = await nextHeaders();
+		expect(headers.get("cookie")).toBe("session=abc");
+	});
+
+	it("should fall back to empty headers outside of a request scope", async () => {
+		nextMock.headers.mockRejectedValue(new Error("`headers` was called outside a request scope"));
+
+		const headers = await nextHeaders();
+		expect([...headers.keys()]).toEqual([]);
+	});
+});
@@ -261,4 +261,19 @@ describe("sanitizeInput", () => {
 			expect(sanitizeInput(false)).toBe(false);
 		});
 	});
+
+	describe("binary values", () => {
+		it("should pass File and Blob values through unchanged", () => {
+			const file = new File(["<b>not markup</b>"], "upload.html");
+			const blob = new Blob(["raw"]);
+
+			expect(sanitizeInput(file)).toBe(file);
+			expect(sanitizeValue(blob)).toBe(blob);
+
+			const result = sanitizeInput({ name: "<i>x</i>", file, nested: { blob } });
+			expect(result.file).toBe(file);
+			expect(result.nested.blob).toBe(blob);
+			expect(result.name).toBe("&lt;i&gt;x&lt;/i&gt;");
+		});
+	});
 });
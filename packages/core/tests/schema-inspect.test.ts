@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	arrayElement,
+	describeSchema,
+	objectShape,
+	recordValue,
+	schemaKind,
+	tupleItems,
+	unwrapSchema,
+} from "../src/schema-inspect";
+
+describe("schemaKind", () => {
+	it("should normalize Zod type names", () => {
+		expect(schemaKind(z.string())).toBe("string");
+		expect(schemaKind(z.object({}))).toBe("object");
+		expect(schemaKind(z.nativeEnum({ A: "a" }))).toBe("nativeEnum");
+		expect(schemaKind(z.string().optional())).toBe("optional");
+	});
+
+	it("should return unknown for non-schemas", () => {
+		expect(schemaKind(undefined)).toBe("unknown");
+		expect(schemaKind({})).toBe("unknown");
+	});
+});
+
+describe("unwrapSchema", () => {
+	it("should strip wrappers and report optional and nullable", () => {
+		const unwrapped = unwrapSchema(
+			z
+				.number()
+				.nullable()
+				.default(1)
+				.refine(() => true),
+		);
+		expect(schemaKind(unwrapped.schema)).toBe("number");
+		expect(unwrapped.optional).toBe(true);
+		expect(unwrapped.nullable).toBe(true);
+	});
+
+	it("should follow pipes, brands and lazy schemas", () => {
+		expect(schemaKind(unwrapSchema(z.string().pipe(z.string().min(1))).schema)).toBe("string");
+		expect(schemaKind(unwrapSchema(z.string().brand("Id")).schema)).toBe("string");
+		expect(schemaKind(unwrapSchema(z.lazy(() => z.boolean())).schema)).toBe("boolean");
+	});
+
+	it("should stop on self-referencing lazy schemas", () => {
+		const loop: z.ZodTypeAny = z.lazy(() => loop);
+		expect(schemaKind(unwrapSchema(loop).schema)).toBe("lazy");
+	});
+});
+
+describe("structure accessors", () => {
+	it("should read object shapes, array elements, tuple items and record values", () => {
+		const shape = objectShape(z.object({ a: z.string() }));
+		expect(Object.keys(shape ?? {})).toEqual(["a"]);
+		expect(schemaKind(arrayElement(z.array(z.number())))).toBe("number");
+		expect(tupleItems(z.tuple([z.string(), z.number()]))?.map(schemaKind)).toEqual([
+			"string",
+			"number",
+		]);
+		expect(schemaKind(recordValue(z.record(z.string(), z.boolean())))).toBe("boolean");
+	});
+
+	it("should return undefined for mismatched kinds", () => {
+		expect(objectShape(z.string())).toBeUndefined();
+		expect(arrayElement(z.object({}))).toBeUndefined();
+		expect(tupleItems(z.array(z.string()))).toBeUndefined();
+		expect(recordValue(z.string())).toBeUndefined();
+	});
+});
+
+describe("describeSchema", () => {
+	it("should describe objects with required and optional properties", () => {
+		const schema = z.object({
+			name: z.string().min(1).max(50),
+			email: z.string().email(),
+			age: z.number().int().positive().optional(),
+			nickname: z.string().nullable(),
+		});
+
+		expect(describeSchema(schema)).toEqual({
+			type: "object",
+			properties: {
+				name: { type: "string", minLength: 1, maxLength: 50 },
+				email: { type: "string", format: "email" },
+				age: { type: "integer", exclusiveMinimum: 0 },
+				nickname: { type: "string", nullable: true },
+			},
+			required: ["name", "email", "nickname"],
+		});
+	});
+
+	it("should describe arrays, tuples and records", () => {
+		expect(describeSchema(z.array(z.number()).min(1).max(3))).toEqual({
+			type: "array",
+			items: { type: "number" },
+			minItems: 1,
+			maxItems: 3,
+		});
+		expect(describeSchema(z.tuple([z.string(), z.boolean()]))).toEqual({
+			type: "array",
+			items: [{ type: "string" }, { type: "boolean" }],
+		});
+		expect(describeSchema(z.record(z.number()))).toEqual({
+			type: "object",
+			additionalProperties: { type: "number" },
+		});
+	});
+
+	it("should describe enums, literals and unions", () => {
+		enum Status {
+			Open = 0,
+			Closed = 1,
+		}
+
+		expect(describeSchema(z.enum(["a", "b"]))).toEqual({ enum: ["a", "b"] });
+		expect(describeSchema(z.nativeEnum(Status))).toEqual({ enum: [0, 1] });
+		expect(describeSchema(z.literal("x"))).toEqual({ const: "x" });
+		expect(describeSchema(z.union([z.string(), z.number()]))).toEqual({
+			anyOf: [{ type: "string" }, { type: "number" }],
+		});
+	});
+
+	it("should see through refinements and defaults", () => {
+		expect(describeSchema(z.string().trim().default("").refine(Boolean))).toEqual({
+			type: "string",
+		});
+	});
+
+	it("should return an open shape for unknown schemas", () => {
+		expect(describeSchema(z.any())).toEqual({});
+		expect(describeSchema(undefined)).toEqual({});
+	});
+});
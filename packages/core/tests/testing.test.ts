@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { customAuth } from "../src/auth/custom";
+import { createActionGuard } from "../src/builder";
+import { MemoryIdempotencyStore } from "../src/idempotency";
+import {
+	createAuditSink,
+	createTestClock,
+	expectRejected,
+	expectSuccess,
+	invokeAction,
+	withRequest,
+} from "../src/testing";
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Simulated requests
+// ---------------------------------------------------------------------------
+describe("withRequest", () => {
+	it("should hand the simulated headers, cookies and IP to the pipeline", async () => {
+		const resolver = vi.fn(async (_headers: Headers) => null);
+		const guard = createActionGuard({ auth: customAuth(resolver) });
+
+		await withRequest(
+			{
+				headers: { authorization: "Bearer abc", cookie: "theme=dark" },
+				cookies: { session: "s1" },
+				ip: "203.0.113.7",
+			},
+			() => guard.auth().action(async () => "ok")(),
+		);
+
+		const headers = resolver.mock.calls[0][0];
+		expect(headers.get("authorization")).toBe("Bearer abc");
+		expect(headers.get("cookie")).toBe("theme=dark; session=s1");
+		expect(headers.get("x-forwarded-for")).toBe("203.0.113.7");
+	});
+
+	it("should take precedence over the guard's headers source", async () => {
+		const guard = createActionGuard({ headers: () => ({ "x-tenant": "real" }) });
+		const action = guard.action(async ({ ctx }) => ctx.headers.get("x-tenant"));
+
+		const result = await withRequest({ headers: { "x-tenant": "test" } }, () => action());
+
+		expect(result).toEqual({ success: true, data: "test" });
+	});
+
+	it("should stub the user without calling the auth provider", async () => {
+		const resolver = vi.fn(async () => ({ id: "real" }));
+		const guard = createActionGuard({ auth: customAuth(resolver) });
+		const action = guard.auth().action(async ({ ctx }) => ctx.user.id);
+
+		const result = await withRequest({ user: { id: "stub" } }, () => action());
+
+		expect(result).toEqual({ success: true, data: "stub" });
+		expect(resolver).not.toHaveBeenCalled();
+	});
+
+	it("should simulate a signed-out caller with a null user", async () => {
+		const guard = createActionGuard({ auth: customAuth(async () => ({ id: "real" })) });
+
+		const result = await withRequest({ user: null }, () => guard.auth().action(async () => "ok")());
+
+		expectRejected(result, "AUTH_FAILED");
+	});
+
+	it("should stub the user on guards without an auth provider", async () => {
+		const guard = createActionGuard();
+
+		const result = await withRequest({ user: { id: "stub" } }, () =>
+			guard.auth().action(async () => "ok")(),
+		);
+
+		expectSuccess(result);
+	});
+
+	it("should pass .csrf() with a CSRF token", async () => {
+		const guard = createActionGuard();
+		const action = guard.csrf().action(async () => "ok");
+
+		expectSuccess(await invokeAction(action, undefined, { csrfToken: "token-1" }));
+		expectRejected(await invokeAction(action), "CSRF_FAILED");
+	});
+
+	it("should not leak outside of the scope", async () => {
+		const guard = createActionGuard({ auth: customAuth(async () => null) });
+		const action = guard.auth().action(async () => "ok");
+
+		await withRequest({ user: { id: "stub" } }, () => action());
+
+		expectRejected(await action(), "AUTH_FAILED");
+	});
+});
+
+describe("invokeAction", () => {
+	it("should call the action with the input", async () => {
+		const guard = createActionGuard();
+		const action = guard.schema(z.object({ title: z.string() })).action(async ({ input }) => input);
+
+		const result = await invokeAction(action, { title: "Hello" });
+
+		expect(result).toEqual({ success: true, data: { title: "Hello" } });
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Clock and audit sink
+// ---------------------------------------------------------------------------
+describe("createTestClock", () => {
+	it("should move only when told to", () => {
+		const clock = createTestClock(1_000);
+
+		clock.advance(500);
+		clock.advance("1s");
+		expect(clock.now()).toBe(2_500);
+
+		clock.set(new Date(10_000));
+		expect(clock.now()).toBe(10_000);
+	});
+
+	it("should drive rate-limit windows", async () => {
+		const clock = createTestClock();
+		const guard = createActionGuard();
+		const action = guard.rateLimit({ maxRequests: 1, window: "1m" }).action(async () => "ok");
+		const request = { ip: "203.0.113.7", clock };
+
+		expectSuccess(await invokeAction(action, undefined, request));
+		expectRejected(await invokeAction(action, undefined, request), "RATE_LIMITED");
+
+		clock.advance("1m");
+		expectSuccess(await invokeAction(action, undefined, request));
+	});
+
+	it("should drive idempotency key expiry", async () => {
+		const clock = createTestClock();
+		const handler = vi.fn(async () => "ok");
+		const guard = createActionGuard({ idempotency: { store: new MemoryIdempotencyStore() } });
+		const action = guard.idempotent({ ttl: "1h" }).action(handler);
+		const request = { headers: { "idempotency-key": "k1" }, clock };
+
+		await invokeAction(action, undefined, request);
+		await invokeAction(action, undefined, request);
+		clock.advance("1h");
+		await invokeAction(action, undefined, request);
+
+		expect(handler).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("createAuditSink", () => {
+	it("should capture audit entries instead of logging them", async () => {
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		const audit = createAuditSink();
+		const clock = createTestClock(Date.UTC(2026, 0, 1));
+		const guard = createActionGuard();
+		const action = guard
+			.audit({ action: "DELETE_POST", resource: "posts" })
+			.action(async () => "ok");
+
+		await invokeAction(action, undefined, { audit, clock });
+
+		expect(audit.entries).toEqual([
+			{
+				timestamp: "2026-01-01T00:00:00.000Z",
+				action: "DELETE_POST",
+				resource: "posts",
+				userId: "anonymous",
+				success: true,
+			},
+		]);
+		expect(consoleSpy).not.toHaveBeenCalled();
+
+		audit.clear();
+		expect(audit.entries).toEqual([]);
+	});
+
+	it("should record the id of the stubbed user", async () => {
+		const audit = createAuditSink();
+		const action = createActionGuard()
+			.auth()
+			.audit({ action: "DELETE_POST", resource: "posts" })
+			.action(async () => "ok");
+
+		await invokeAction(action, undefined, { audit, user: { id: "user-1", name: "Alice" } });
+
+		expect(audit.entries[0].userId).toBe("user-1");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// Assertions
+// ---------------------------------------------------------------------------
+describe("expectRejected", () => {
+	const rejected = { success: false as const, error: "Rate limit exceeded", code: "RATE_LIMITED" };
+
+	it("should pass for a rejection with the expected code", () => {
+		expect(() => expectRejected(rejected, "RATE_LIMITED")).not.toThrow();
+		expect(() => expectRejected(rejected)).not.toThrow();
+	});
+
+	it("should fail for another code or a success", () => {
+		expect(() => expectRejected(rejected, "AUTH_FAILED")).toThrow(
+			"Expected the action to be rejected with AUTH_FAILED, but it was rejected with RATE_LIMITED: Rate limit exceeded",
+		);
+		expect(() => expectRejected({ success: true, data: 1 }, "AUTH_FAILED")).toThrow(
+			"Expected the action to be rejected with AUTH_FAILED, but it succeeded",
+		);
+	});
+});
+
+describe("expectSuccess", () => {
+	it("should fail for a rejection", () => {
+		expect(() =>
+			expectSuccess({ success: false, error: "Unauthorized", code: "AUTH_FAILED" }),
+		).toThrow("Expected the action to succeed, but it was rejected with AUTH_FAILED: Unauthorized");
+		expect(() => expectSuccess({ success: true, data: 1 })).not.toThrow();
+	});
+});
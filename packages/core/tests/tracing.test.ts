@@ -0,0 +1,128 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { beforeEach, describe, expect, it } from "vitest";
+import { ActionError } from "../src/errors";
+import { endActionSpan, startActionSpan, traceStep } from "../src/tracing";
+import { createCtx } from "./helpers";
+
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({
+	spanProcessors: [new SimpleSpanProcessor(exporter)],
+}).getTracer("test");
+
+beforeEach(() => {
+	exporter.reset();
+});
+
+describe("startActionSpan / endActionSpan", () => {
+	it("should return undefined without a tracer", () => {
+		expect(startActionSpan(undefined, undefined)).toBeUndefined();
+		expect(() => endActionSpan(undefined, { success: true, data: 1 })).not.toThrow();
+	});
+
+	it("should record the audit entry and the outcome", () => {
+		const span = startActionSpan(tracer, { action: "DELETE_POST", resource: "posts" });
+		endActionSpan(span, { success: false, error: "Unauthorized", code: "AUTH_FAILED" });
+
+		const [finished] = exporter.getFinishedSpans();
+		expect(finished.name).toBe("actionguard.action");
+		expect(finished.attributes).toEqual({
+			"actionguard.audit.action": "DELETE_POST",
+			"actionguard.audit.resource": "posts",
+			"actionguard.success": false,
+			"actionguard.code": "AUTH_FAILED",
+		});
+		expect(finished.status.code).toBe(SpanStatusCode.UNSET);
+	});
+
+	it("should mark internal errors as span errors", () => {
+		const span = startActionSpan(tracer, undefined);
+		endActionSpan(span, { success: false, error: "Internal error", code: "INTERNAL_ERROR" });
+
+		expect(exporter.getFinishedSpans()[0].status).toEqual({
+			code: SpanStatusCode.ERROR,
+			message: "INTERNAL_ERROR",
+		});
+	});
+});
+
+describe("traceStep", () => {
+	it("should run without a span when tracing is off", async () => {
+		const result = await traceStep(
+			undefined,
+			undefined,
+			"auth",
+			createCtx(),
+			async () => undefined,
+		);
+
+		expect(result).toBeUndefined();
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+	});
+
+	it("should open a child span of the action span", async () => {
+		const parent = startActionSpan(tracer, undefined);
+		await traceStep(tracer, parent, "auth", createCtx(), async () => undefined);
+		parent?.end();
+
+		const [step, action] = exporter.getFinishedSpans();
+		expect(step.name).toBe("actionguard.auth");
+		expect(step.attributes).toEqual({ "actionguard.step": "auth" });
+		expect(step.parentSpanContext?.spanId).toBe(action.spanContext().spanId);
+	});
+
+	it("should record the rejection code and the rate-limit quota left", async () => {
+		const parent = startActionSpan(tracer, undefined);
+		const ctx = createCtx({ metadata: { rateLimit: { remaining: 0 } } });
+		await traceStep(tracer, parent, "rateLimit", ctx, async () => ({
+			success: false as const,
+			error: "Too many requests",
+			code: "RATE_LIMITED",
+		}));
+
+		expect(exporter.getFinishedSpans()[0].attributes).toEqual({
+			"actionguard.step": "rateLimit",
+			"actionguard.code": "RATE_LIMITED",
+			"actionguard.rate_limit.remaining": 0,
+		});
+	});
+
+	it("should record the audit entry", async () => {
+		const parent = startActionSpan(tracer, undefined);
+		const ctx = createCtx({ metadata: { audit: { action: "EXPORT", resource: "reports" } } });
+		await traceStep(tracer, parent, "audit", ctx, async () => undefined);
+
+		expect(exporter.getFinishedSpans()[0].attributes).toMatchObject({
+			"actionguard.audit.action": "EXPORT",
+			"actionguard.audit.resource": "reports",
+		});
+	});
+
+	it("should record unexpected errors and rethrow", async () => {
+		const parent = startActionSpan(tracer, undefined);
+		const run = traceStep(tracer, parent, "context", createCtx(), async () => {
+			throw new Error("db down");
+		});
+
+		await expect(run).rejects.toThrow("db down");
+		const [step] = exporter.getFinishedSpans();
+		expect(step.status.code).toBe(SpanStatusCode.ERROR);
+		expect(step.events[0].name).toBe("exception");
+	});
+
+	it("should record an ActionError as a code, not a span error", async () => {
+		const parent = startActionSpan(tracer, undefined);
+		const run = traceStep(tracer, parent, "use", createCtx(), async () => {
+			throw new ActionError("Payment required", { code: "PAYMENT_REQUIRED", status: 402 });
+		});
+
+		await expect(run).rejects.toThrow("Payment required");
+		const [step] = exporter.getFinishedSpans();
+		expect(step.attributes["actionguard.code"]).toBe("PAYMENT_REQUIRED");
+		expect(step.status.code).toBe(SpanStatusCode.UNSET);
+	});
+});
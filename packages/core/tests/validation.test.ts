@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { createActionGuard } from "../src/builder";
+import { formatIssuePath, formatValidationErrors } from "../src/validation";
+
+function parseError(schema: z.ZodTypeAny, input: unknown): z.ZodError {
+	const result = schema.safeParse(input);
+	if (result.success) {
+		throw new Error("Expected parse to fail");
+	}
+	return result.error;
+}
+
+describe("formatIssuePath", () => {
+	it("should join object keys with dots and wrap array indexes", () => {
+		expect(formatIssuePath(["address", "lines", 0, "text"])).toBe("address.lines[0].text");
+	});
+
+	it("should format a leading array index", () => {
+		expect(formatIssuePath([2, "name"])).toBe("[2].name");
+	});
+
+	it("should return an empty string for the root path", () => {
+		expect(formatIssuePath([])).toBe("");
+	});
+});
+
+describe("formatValidationErrors", () => {
+	it("should group messages by field", () => {
+		const schema = z.object({
+			email: z.string().email("Invalid email"),
+			password: z.string().min(8, "Too short").regex(/\d/, "Needs a digit"),
+		});
+
+		const errors = formatValidationErrors(parseError(schema, { email: "nope", password: "abc" }));
+
+		expect(errors).toEqual({
+			formErrors: [],
+			fieldErrors: {
+				email: ["Invalid email"],
+				password: ["Too short", "Needs a digit"],
+			},
+		});
+	});
+
+	it("should key nested fields by their full path", () => {
+		const schema = z.object({
+			address: z.object({ lines: z.array(z.string().min(1, "Required")) }),
+		});
+
+		const errors = formatValidationErrors(parseError(schema, { address: { lines: ["ok", ""] } }));
+
+		expect(errors.fieldErrors).toEqual({ "address.lines[1]": ["Required"] });
+	});
+
+	it("should report object-level refinements as form errors", () => {
+		const schema = z
+			.object({ password: z.string(), confirm: z.string() })
+			.refine((data) => data.password === data.confirm, "Passwords do not match");
+
+		const errors = formatValidationErrors(parseError(schema, { password: "a", confirm: "b" }));
+
+		expect(errors).toEqual({ formErrors: ["Passwords do not match"], fieldErrors: {} });
+	});
+
+	it("should keep a __proto__ field as plain data", () => {
+		const schema = z.record(z.string(), z.number());
+		const input = JSON.parse('{"__proto__": "polluted"}');
+
+		const errors = formatValidationErrors(parseError(schema, input));
+
+		expect(Object.getPrototypeOf(errors.fieldErrors)).toBe(Object.prototype);
+		expect(Object.hasOwn(errors.fieldErrors, "__proto__")).toBe(true);
+	});
+});
+
+describe("schema step validation errors", () => {
+	it("should return field errors with VALIDATION_ERROR", async () => {
+		const guard = createActionGuard();
+		const myAction = guard
+			.schema(z.object({ title: z.string().min(3, "Title is too short") }))
+			.action(async ({ input }) => input);
+
+		const result = await myAction({ title: "ab" });
+
+		expect(result).toEqual({
+			success: false,
+			error: "Validation failed",
+			code: "VALIDATION_ERROR",
+			formErrors: [],
+			fieldErrors: { title: ["Title is too short"] },
+		});
+	});
+
+	it("should use the formatter from the guard config", async () => {
+		const guard = createActionGuard({
+			validation: {
+				formatErrors: (error) => ({
+					formErrors: [`${error.issues.length} problem(s)`],
+					fieldErrors: {},
+				}),
+			},
+		});
+		const myAction = guard
+			.schema(z.object({ a: z.string(), b: z.string() }))
+			.action(async ({ input }) => input);
+
+		const result = await myAction({});
+
+		expect(result).toMatchObject({
+			success: false,
+			code: "VALIDATION_ERROR",
+			formErrors: ["2 problem(s)"],
+			fieldErrors: {},
+		});
+	});
+});
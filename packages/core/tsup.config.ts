@@ -1,7 +1,13 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-	entry: ["src/index.ts", "src/auth/supabase.ts", "src/auth/next-auth.ts", "src/auth/custom.ts"],
+	entry: [
+		"src/index.ts",
+		"src/auth/supabase.ts",
+		"src/auth/next-auth.ts",
+		"src/auth/custom.ts",
+		"src/testing/index.ts",
+	],
 	format: ["cjs", "esm"],
 	dts: true,
 	splitting: true,